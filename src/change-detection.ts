@@ -1,10 +1,12 @@
-import { ALL, META } from "./symbols.js";
+import { ALL, META, BY_KEY } from "./symbols.js";
 import type { UpdateResult, ChangeDetector, ChangeDetectorFn } from "./types.js";
 
 export function hasChanges<T extends object>(result: UpdateResult<T> | undefined, detector: ChangeDetector<T>) {
-  if (result === undefined) return false;
+  // Primitive results (e.g. an array's length) have nothing to detect in
+  if (result == null || typeof result !== "object") return false;
 
-  const { [ALL]: all, ...rest } = detector;
+  const { [ALL]: all, [BY_KEY]: byKey, ...keyed } = detector as any;
+  const rest = byKey !== undefined ? resolveKeys(result, keyed) : keyed;
   if (all) {
     for (const key in result) {
       if (!(key in rest)) {
@@ -29,6 +31,18 @@ export function hasChanges<T extends object>(result: UpdateResult<T> | undefined
   return false;
 }
 
+// Keys of a BY_KEY detector match the elements the result recorded them for, elements changed by index have no key
+function resolveKeys(result: any, detector: any) {
+  const keys = result[BY_KEY] ?? {};
+  const resolved: any = {};
+  for (const index in keys) {
+    if (Object.prototype.hasOwnProperty.call(detector, keys[index])) {
+      resolved[index] = detector[keys[index]];
+    }
+  }
+  return resolved;
+}
+
 export const anyChange: ChangeDetectorFn<any> = (key: string, r?: UpdateResult<any>) => {
   return r !== undefined && key in r;
 };
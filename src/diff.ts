@@ -0,0 +1,165 @@
+import { PUSH, INSERT } from "./symbols.js";
+import type { Update, DiffOptions } from "./types.js";
+
+const NO_CHANGE = Symbol();
+
+/**
+ * Computes the statement that turns before into after: update(before, diff(before, after)) leaves
+ * before deep-equal to after, and its UpdateResult lists exactly the differences.
+ *
+ * Plain objects and arrays are compared key by key, dates by time, other objects (class instances)
+ * and functions by reference. Array elements are matched by index unless options.key identifies them.
+ */
+export function diff<T extends object>(before: T, after: T, options: DiffOptions = {}): Update<T> {
+  if (Array.isArray(before) !== Array.isArray(after)) {
+    throw Error("Can't diff an array with an object");
+  }
+
+  const stmt = Array.isArray(before) ? diffArray(before, after as any[], options) : diffObject(before, after, options);
+  return (stmt === NO_CHANGE ? {} : stmt) as Update<T>;
+}
+
+function diffValue(before: any, after: any, exists: boolean, options: DiffOptions): any {
+  if (exists && (Object.is(before, after) || (before instanceof Date && after instanceof Date && +before === +after))) {
+    return NO_CHANGE;
+  }
+
+  if (exists && isPlainObject(before) && isPlainObject(after)) {
+    return diffObject(before, after, options);
+  }
+
+  if (exists && Array.isArray(before) && Array.isArray(after)) {
+    return diffArray(before, after, options);
+  }
+
+  if (!exists && after === undefined) {
+    return NO_CHANGE;
+  }
+
+  // Objects and functions as values are partial updates, they need replacement syntax
+  if ((after != null && typeof after === "object") || typeof after === "function" || after === undefined) {
+    return [after];
+  }
+  return after;
+}
+
+function diffObject(before: any, after: any, options: DiffOptions) {
+  const stmt: any = {};
+
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) {
+      stmt[key] = [];
+    }
+  }
+
+  for (const key of Object.keys(after)) {
+    const keyStmt = diffValue(before[key], after[key], key in before, options);
+    if (keyStmt !== NO_CHANGE) {
+      stmt[key] = keyStmt;
+    }
+  }
+
+  return Object.keys(stmt).length > 0 ? stmt : NO_CHANGE;
+}
+
+function diffArray(before: any[], after: any[], options: DiffOptions) {
+  const stmt = (options.key !== undefined && diffKeyed(before, after, options)) || diffIndexed(before, after, options);
+  return Reflect.ownKeys(stmt).length > 0 ? stmt : NO_CHANGE;
+}
+
+function diffIndexed(before: any[], after: any[], options: DiffOptions) {
+  const stmt: any = {};
+
+  for (let i = 0; i < Math.min(before.length, after.length); i++) {
+    const indexStmt = diffValue(before[i], after[i], true, options);
+    if (indexStmt !== NO_CHANGE) {
+      stmt[i] = indexStmt;
+    }
+  }
+
+  if (after.length > before.length) {
+    stmt[PUSH] = after.slice(before.length);
+  }
+  for (let i = after.length; i < before.length; i++) {
+    stmt[i] = [];
+  }
+
+  return stmt;
+}
+
+// Matches elements by identity: updates them at their original index, deletes the missing ones
+// and inserts the new ones. Returns undefined when that can't express the change in one statement
+// (elements without identity, reordering, new elements in more than one place besides the end).
+function diffKeyed(before: any[], after: any[], options: DiffOptions) {
+  const beforeIds = identities(before, options);
+  const afterIds = identities(after, options);
+  if (!beforeIds || !afterIds) {
+    return undefined;
+  }
+
+  const afterIndex = new Map(afterIds.map((id, i) => [id, i]));
+  const beforeIndex = new Set(beforeIds);
+  const stmt: any = {};
+
+  let last = -1;
+  for (let i = 0; i < before.length; i++) {
+    const index = afterIndex.get(beforeIds[i]);
+    if (index === undefined) {
+      stmt[i] = [];
+      continue;
+    }
+
+    if (index < last) {
+      return undefined;
+    }
+    last = index;
+
+    const elementStmt = diffValue(before[i], after[index], true, options);
+    if (elementStmt !== NO_CHANGE) {
+      stmt[i] = elementStmt;
+    }
+  }
+
+  // Runs of consecutive new elements
+  const runs: [number, number][] = [];
+  for (let i = 0; i < after.length; i++) {
+    if (beforeIndex.has(afterIds[i])) continue;
+
+    const run = runs[runs.length - 1];
+    if (run && run[1] === i) {
+      run[1] = i + 1;
+    } else {
+      runs.push([i, i + 1]);
+    }
+  }
+
+  const tail = runs.length > 0 && runs[runs.length - 1][1] === after.length ? runs.pop() : undefined;
+  if (runs.length > 1) {
+    return undefined;
+  }
+  if (runs.length === 1) {
+    const [start, end] = runs[0];
+    stmt[INSERT] = [start, ...after.slice(start, end)];
+  }
+  if (tail) {
+    stmt[PUSH] = after.slice(tail[0]);
+  }
+
+  return stmt;
+}
+
+// Identity of each element, undefined if one is missing or duplicated
+function identities(array: any[], { key }: DiffOptions) {
+  const ids = array.map((element) =>
+    typeof key === "function" ? key(element) : element != null && typeof element === "object" ? element[key!] : undefined,
+  );
+  return ids.includes(undefined) || new Set(ids).size !== ids.length ? undefined : ids;
+}
+
+function isPlainObject(value: any) {
+  if (value == null || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
@@ -0,0 +1,93 @@
+/**
+ * Human-readable change lists for tsqn
+ *
+ * formatChanges flattens an UpdateResult into one entry per changed value.
+ * renderChanges turns the entries into text or a markdown table for logs and review screens.
+ */
+
+import { META } from "./symbols.js";
+import { originalArrayLength } from "./update.js";
+import type { UpdateResult, ChangeEntry, RenderOptions } from "./types.js";
+
+/**
+ * Flatten an UpdateResult into a list of changes
+ *
+ * @param result - The result returned by update() or transaction().commit()
+ * @returns One entry per added, removed or changed value, in the order update() recorded them
+ */
+export function formatChanges<T>(result: UpdateResult<T> | undefined): ChangeEntry[] {
+  const entries: ChangeEntry[] = [];
+  if (result != null && typeof result === "object") {
+    addEntries(result, [], entries);
+  }
+  return entries;
+}
+
+function addEntries(result: any, path: string[], entries: ChangeEntry[]) {
+  const { [META]: meta = {}, ...rest } = result;
+  // Arrays that changed length record it next to the changed indices
+  const isArray = originalArrayLength(result) !== undefined;
+
+  for (const key of Object.keys(rest)) {
+    if (isArray && key === "length") continue;
+
+    const value = rest[key];
+    if (!(key in meta)) {
+      if (value != null && typeof value === "object") {
+        addEntries(value, [...path, key], entries);
+      }
+      continue;
+    }
+
+    const original = meta[key].original;
+    if (original === undefined) {
+      if (value !== undefined) {
+        entries.push({ path: [...path, key], kind: "added", after: value });
+      }
+    } else if (value === undefined) {
+      entries.push({ path: [...path, key], kind: "removed", before: original });
+    } else {
+      entries.push({ path: [...path, key], kind: "changed", before: original, after: value });
+    }
+  }
+}
+
+/**
+ * Render changes as text, one line per change, or as a markdown table
+ *
+ * @param entries - Entries from formatChanges(), possibly filtered
+ * @param options - format: "text" (default) or "markdown"
+ */
+export function renderChanges(entries: ChangeEntry[], options: RenderOptions = {}): string {
+  if (options.format === "markdown") {
+    const rows = entries.map(
+      ({ path, kind, before, after }) =>
+        `| ${escapeCell(path.join("."))} | ${kind} | ${cell(kind !== "added", before)} | ${cell(kind !== "removed", after)} |`,
+    );
+    return ["| Path | Change | Before | After |", "| --- | --- | --- | --- |", ...rows].join("\n");
+  }
+
+  return entries
+    .map(({ path, kind, before, after }) => {
+      const key = path.join(".");
+      if (kind === "added") return `+ ${key}: ${formatValue(after)}`;
+      if (kind === "removed") return `- ${key}: ${formatValue(before)}`;
+      return `~ ${key}: ${formatValue(before)} -> ${formatValue(after)}`;
+    })
+    .join("\n");
+}
+
+function cell(present: boolean, value: any) {
+  return present ? "`" + escapeCell(formatValue(value)) + "`" : "";
+}
+
+function escapeCell(text: string) {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function formatValue(value: any): string {
+  if (typeof value === "function") {
+    return value.name ? `[Function ${value.name}]` : "[Function]";
+  }
+  return JSON.stringify(value) ?? String(value);
+}
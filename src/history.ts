@@ -0,0 +1,108 @@
+import type { Update, UpdateResult, HistoryOptions } from "./types.js";
+import { updateImpl, undoImpl, redoImpl, mergeResults, transaction } from "./update.js";
+
+/**
+ * Undo/redo history for data. Every update or committed transaction becomes one step,
+ * steps recorded between beginGroup() and endGroup() are merged into one.
+ */
+export function history<T extends object>(data: T, options: HistoryOptions = {}) {
+  const { limit = Infinity, onChange } = options;
+  const undoStack: UpdateResult<T>[] = [];
+  let redoStack: UpdateResult<T>[] = [];
+  let groupDepth = 0;
+  // true while the top of the undo stack belongs to the open group
+  let groupStarted = false;
+
+  function emit() {
+    onChange?.({ undoSize: undoStack.length, redoSize: redoStack.length });
+  }
+
+  function record(changes: UpdateResult<T> | undefined) {
+    if (!changes) return;
+
+    if (groupDepth > 0 && groupStarted) {
+      mergeResults(undoStack[undoStack.length - 1], changes);
+    } else {
+      undoStack.push(changes);
+      groupStarted = groupDepth > 0;
+      if (undoStack.length > limit) {
+        undoStack.shift();
+      }
+    }
+    redoStack = [];
+    emit();
+  }
+
+  return {
+    update(stmt: Update<T>) {
+      record(updateImpl(data, stmt));
+      return this; // Allow chaining
+    },
+    // Records changes that were already applied to data, e.g. a committed transaction
+    record(changes: UpdateResult<T> | undefined) {
+      record(changes);
+      return this;
+    },
+    // Transaction whose commit becomes one history step
+    transaction() {
+      const tx = transaction(data);
+      return {
+        update(stmt: Update<T>) {
+          tx.update(stmt);
+          return this;
+        },
+        commit: () => {
+          const changes = tx.commit();
+          record(changes);
+          return changes;
+        },
+        revert: tx.revert,
+      };
+    },
+    beginGroup() {
+      groupDepth++;
+      return this;
+    },
+    endGroup() {
+      if (groupDepth > 0 && --groupDepth === 0) {
+        groupStarted = false;
+      }
+      return this;
+    },
+    // Reverts the last step and returns its changes
+    undo(): UpdateResult<T> | undefined {
+      groupDepth = 0;
+      groupStarted = false;
+      const changes = undoStack.pop();
+      if (changes) {
+        undoImpl(data, changes);
+        redoStack.push(changes);
+        emit();
+      }
+      return changes;
+    },
+    // Reapplies the last undone step and returns its changes
+    redo(): UpdateResult<T> | undefined {
+      const changes = redoStack.pop();
+      if (changes) {
+        redoImpl(data, changes);
+        undoStack.push(changes);
+        emit();
+      }
+      return changes;
+    },
+    canUndo: () => undoStack.length > 0,
+    canRedo: () => redoStack.length > 0,
+    get undoSize() {
+      return undoStack.length;
+    },
+    get redoSize() {
+      return redoStack.length;
+    },
+    clear() {
+      undoStack.length = 0;
+      redoStack = [];
+      emit();
+    },
+  };
+}
@@ -1,6 +1,7 @@
 // Export symbols
 export { 
-  ALL, DEEP_ALL, WHERE, DEFAULT, CONTEXT, META,
+  ALL, DEEP_ALL, WHERE, DEFAULT, UPSERT, CONTEXT, META, ARRAY, BY_KEY,
+  PUSH, INSERT, SPLICE, MOVE, ADD_TO_SET, PULL, INC, MUL, MIN, MAX, APPEND, REF, RENAME, AS, ORDER_BY, LIMIT, OFFSET, GROUP_BY, AGGREGATE, COUNT, SUM, AVG, LOOKUP,
   LT, GT, LTE, GTE, EQ, NEQ, NOT, MATCH, SOME
 } from './symbols.js';
 
@@ -9,27 +10,71 @@ export type {
   Update,
   UpdateResult,
   UpdateResultMeta,
+  ImmutableUpdate,
+  UpsertFactory,
+  RefPath,
+  Reference,
+  HistoryOptions,
+  HistoryState,
+  StoreListener,
   DataChange,
   ChangeDetector,
   ChangeDetectorFn,
   Select,
   SelectResult,
+  OrderBy,
+  Aggregation,
   Delete,
   Replace,
-  Predicate
+  Predicate,
+  PatternOptions,
+  JSONPatchOperation,
+  ChangeEntry,
+  RenderOptions,
+  DiffOptions,
+  MergeConflict,
+  MergeResolution,
+  MergeStrategy,
+  MergeResult,
+  Transform,
+  TransformResult
 } from './types.js';
 
 // Export update, undo, and transaction functionality
-export { update, undo, transaction } from './update.js';
+export { update, updateImmutable, previewUpdate, compileUpdate, undo, invert, transaction } from './update.js';
+
+// Export undo/redo history
+export { history } from './history.js';
+
+// Export observable store
+export { createStore } from './store.js';
+
+// Export structural diff
+export { diff } from './diff.js';
+
+// Export three-way merge
+export { merge } from './merge.js';
 
 // Export select functionality
-export { select } from './select.js';
+export { select, compileSelect } from './select.js';
+
+// Export transform functionality
+export { transform } from './transform.js';
 
 // Export change detection
 export { hasChanges, anyChange, typeChange } from './change-detection.js';
 
 // Export predicate functionality
-export { evalPredicate } from './predicate.js';
+export { evalPredicate, compilePredicate, configurePatterns, isSafePattern, PatternError } from './predicate.js';
 
 // Export serialization functionality
-export { toJSON, fromJSON, SerializationError, validateNoFunctions } from './serialization.js';
\ No newline at end of file
+export { toJSON, fromJSON, SerializationError, validateNoFunctions } from './serialization.js';
+
+// Export statement validation
+export { validateUpdate, validateSelect } from './validate.js';
+
+// Export JSON Patch conversion
+export { toJSONPatch, fromJSONPatch } from './json-patch.js';
+
+// Export change lists
+export { formatChanges, renderChanges } from './format.js';
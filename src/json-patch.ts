@@ -0,0 +1,207 @@
+/**
+ * JSON Patch (RFC 6902) conversion for tsqn
+ *
+ * toJSONPatch turns an UpdateResult into add/replace/remove operations.
+ * fromJSONPatch turns operations back into an Update statement for update().
+ *
+ * Numeric path segments are treated as array indices, since a patch carries no
+ * information about whether the target is an array or a record.
+ */
+
+import { META, PUSH, INSERT } from "./symbols.js";
+import type { Update, UpdateResult, JSONPatchOperation } from "./types.js";
+import { SerializationError } from "./serialization.js";
+import { originalArrayLength } from "./update.js";
+
+/**
+ * Convert an UpdateResult to JSON Patch operations
+ *
+ * @param result - The result returned by update() or transaction().commit()
+ * @returns Operations that turn the original data into the updated data
+ */
+export function toJSONPatch<T>(result: UpdateResult<T> | undefined): JSONPatchOperation[] {
+  const operations: JSONPatchOperation[] = [];
+  if (result != null && typeof result === "object") {
+    addOperations(result, "", operations);
+  }
+  return operations;
+}
+
+function addOperations(result: any, path: string, operations: JSONPatchOperation[]) {
+  const { [META]: meta = {}, ...rest } = result;
+  const originalLength = originalArrayLength(result);
+
+  if (originalLength !== undefined) {
+    // Array that changed length: replace what both versions have, then add or remove the tail
+    const length: number = rest.length;
+    const common = Math.min(originalLength, length);
+
+    for (const key of Object.keys(rest)) {
+      const index = Number(key);
+      if (key !== "length" && index < common) {
+        addKeyOperation(rest, meta, key, `${path}/${key}`, operations);
+      }
+    }
+    for (let i = originalLength; i < length; i++) {
+      operations.push({ op: "add", path: `${path}/${i}`, value: rest[i] });
+    }
+    for (let i = originalLength - 1; i >= length; i--) {
+      operations.push({ op: "remove", path: `${path}/${i}` });
+    }
+    return;
+  }
+
+  for (const key of Object.keys(rest)) {
+    addKeyOperation(rest, meta, key, `${path}/${escapePathSegment(key)}`, operations);
+  }
+}
+
+function addKeyOperation(result: any, meta: any, key: string, path: string, operations: JSONPatchOperation[]) {
+  const value = result[key];
+
+  if (!(key in meta)) {
+    if (value != null && typeof value === "object") {
+      addOperations(value, path, operations);
+    }
+    return;
+  }
+
+  const original = meta[key].original;
+  if (original === undefined) {
+    if (value !== undefined) {
+      operations.push({ op: "add", path, value });
+    }
+  } else if (value === undefined) {
+    operations.push({ op: "remove", path });
+  } else {
+    operations.push({ op: "replace", path, value });
+  }
+}
+
+// Array operations must follow the order update() applies them in
+const ArrayPhase = { Update: 0, Remove: 1, Insert: 2, Push: 3 } as const;
+
+type ArrayState = {
+  phase: number;
+  // original indices removed so far, ascending
+  removed: number[];
+};
+
+/**
+ * Convert JSON Patch operations to an Update statement
+ *
+ * @param operations - add, replace and remove operations
+ * @returns A statement that applies the operations when passed to update()
+ * @throws SerializationError for unsupported operations, root paths, or operation
+ *   sequences that can't be expressed as a single statement
+ */
+export function fromJSONPatch<T>(operations: JSONPatchOperation[]): Update<T> {
+  const statement: any = {};
+  const arrays = new Map<any, ArrayState>();
+
+  function arrayState(stmt: any) {
+    let state = arrays.get(stmt);
+    if (!state) {
+      state = { phase: ArrayPhase.Update, removed: [] };
+      arrays.set(stmt, state);
+    }
+    return state;
+  }
+
+  function enterPhase(stmt: any, phase: number, path: string[]) {
+    const state = arrayState(stmt);
+    if (phase < state.phase) {
+      throw new SerializationError("Array operations out of order", path);
+    }
+    state.phase = phase;
+    return state;
+  }
+
+  for (const operation of operations) {
+    const path = parsePointer(operation.path);
+    if (operation.op !== "add" && operation.op !== "replace" && operation.op !== "remove") {
+      throw new SerializationError(`Unsupported JSON Patch operation: ${operation.op}`, path);
+    }
+    if (path.length === 0) {
+      throw new SerializationError("Cannot patch the document root", path);
+    }
+
+    let stmt = statement;
+    for (let i = 0; i < path.length - 1; i++) {
+      const segment = path[i];
+      if (isIndex(segment) && arrayState(stmt).phase !== ArrayPhase.Update) {
+        throw new SerializationError("Array operations out of order", path.slice(0, i + 1));
+      }
+      const next = stmt[segment];
+      if (next === undefined) {
+        stmt = stmt[segment] = {};
+      } else if (next !== null && typeof next === "object" && !Array.isArray(next)) {
+        stmt = next;
+      } else {
+        throw new SerializationError("Conflicting operations", path.slice(0, i + 1));
+      }
+    }
+
+    const key = path[path.length - 1];
+    if (key === "-") {
+      if (operation.op !== "add") {
+        throw new SerializationError(`Can't ${operation.op} the end of an array`, path);
+      }
+      enterPhase(stmt, ArrayPhase.Push, path);
+      stmt[PUSH] = [...(stmt[PUSH] ?? []), operation.value];
+    } else if (!isIndex(key)) {
+      if (operation.op === "remove") {
+        stmt[key] = [];
+      } else {
+        stmt[key] = [operation.value];
+      }
+    } else if (operation.op === "replace") {
+      enterPhase(stmt, ArrayPhase.Update, path);
+      stmt[key] = [operation.value];
+    } else if (operation.op === "remove") {
+      const state = enterPhase(stmt, ArrayPhase.Remove, path);
+      // convert the index after earlier removals to the original index
+      let index = Number(key);
+      for (const removed of state.removed) {
+        if (removed <= index) index++;
+      }
+      state.removed.push(index);
+      state.removed.sort((a, b) => a - b);
+      stmt[String(index)] = [];
+    } else {
+      enterPhase(stmt, ArrayPhase.Insert, path);
+      const index = Number(key);
+      const insert = stmt[INSERT];
+      if (!insert) {
+        stmt[INSERT] = [index, operation.value];
+      } else if (insert[0] + insert.length - 1 === index) {
+        insert.push(operation.value);
+      } else {
+        throw new SerializationError("Only consecutive array inserts are supported", path);
+      }
+    }
+  }
+
+  return statement;
+}
+
+function isIndex(segment: string) {
+  return /^(0|[1-9]\d*)$/.test(segment);
+}
+
+function escapePathSegment(segment: string) {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    throw new SerializationError(`Invalid JSON Pointer: ${pointer}`);
+  }
+  return pointer
+    .substring(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
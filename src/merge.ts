@@ -0,0 +1,97 @@
+/**
+ * Three-way merge of concurrent changes for tsqn
+ *
+ * Two UpdateResults recorded against copies of the same base are combined into one: keys changed by
+ * only one side are taken as they are, keys changed by both sides to different values are conflicts.
+ */
+
+import { META } from "./symbols.js";
+import { redoImpl, redoCopy, isEqual, originalArrayLength } from "./update.js";
+import type { UpdateResult, MergeConflict, MergeStrategy, MergeResult } from "./types.js";
+
+/**
+ * Apply two concurrent results to their common base
+ *
+ * @param base - The data both results were recorded against, updated in place
+ * @param a - Changes made on one copy of base
+ * @param b - Changes made on another copy of base
+ * @param strategy - Called for each conflict, returns the value to keep or undefined to leave it unresolved
+ * @returns The combined changes, which undo() reverts, and the unresolved conflicts. Unresolved keys keep their base value.
+ */
+export function merge<T extends object>(
+  base: T,
+  a: UpdateResult<T> | undefined,
+  b: UpdateResult<T> | undefined,
+  strategy?: MergeStrategy,
+): MergeResult<T> {
+  const conflicts: MergeConflict[] = [];
+  const changes = mergeImpl(base, a ?? {}, b ?? {}, [], strategy, conflicts);
+  return { changes, conflicts };
+}
+
+function mergeImpl(data: any, a: any, b: any, path: string[], strategy: MergeStrategy | undefined, conflicts: MergeConflict[]) {
+  const { [META]: aMeta = {}, ...aRest } = a;
+  const { [META]: bMeta = {}, ...bRest } = b;
+  const result: any = {};
+
+  for (const key of new Set([...Object.keys(aRest), ...Object.keys(bRest)])) {
+    if (!(key in bRest)) {
+      apply(data, key, aRest[key], key in aMeta, result);
+      continue;
+    }
+    if (!(key in aRest)) {
+      apply(data, key, bRest[key], key in bMeta, result);
+      continue;
+    }
+
+    const aReplaced = key in aMeta;
+    const bReplaced = key in bMeta;
+    // Indices shift when an array changes length, so its changes only merge as a whole
+    const lengthChanged = originalArrayLength(aRest[key]) !== undefined || originalArrayLength(bRest[key]) !== undefined;
+    if (!aReplaced && !bReplaced && !lengthChanged) {
+      const nested = mergeImpl(data[key], aRest[key], bRest[key], [...path, key], strategy, conflicts);
+      if (nested) {
+        result[key] = nested;
+      }
+      continue;
+    }
+
+    const aValue = aReplaced ? aRest[key] : redoCopy(data[key], aRest[key]);
+    const bValue = bReplaced ? bRest[key] : redoCopy(data[key], bRest[key]);
+    if (isEqual(aValue, bValue)) {
+      apply(data, key, aRest[key], aReplaced, result);
+      continue;
+    }
+
+    const conflict = { path: [...path, key], original: data[key], a: aValue, b: bValue };
+    const resolution = strategy?.(conflict);
+    if (resolution === "a") {
+      apply(data, key, aRest[key], aReplaced, result);
+    } else if (resolution === "b") {
+      apply(data, key, bRest[key], bReplaced, result);
+    } else if (Array.isArray(resolution)) {
+      apply(data, key, resolution[0], true, result);
+    } else {
+      conflicts.push(conflict);
+    }
+  }
+
+  return Reflect.ownKeys(result).length > 0 ? result : undefined;
+}
+
+// Applies one side's change of key to data and records it in result
+function apply(data: any, key: string, change: any, replaced: boolean, result: any) {
+  if (!replaced) {
+    redoImpl(data[key], change);
+    result[key] = change;
+    return;
+  }
+
+  result[META] = { ...result[META], [key]: { original: data[key] } };
+  result[key] = change;
+  if (change === undefined && !Array.isArray(data)) {
+    delete data[key];
+  } else {
+    data[key] = change;
+  }
+}
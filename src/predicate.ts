@@ -1,5 +1,5 @@
-import { ALL, SOME, NOT, LT, GT, LTE, GTE, EQ, NEQ, MATCH } from "./symbols.js";
-import { Predicate } from "./types.js";
+import { ALL, DEEP_ALL, WHERE, PULL, SOME, NOT, LT, GT, LTE, GTE, EQ, NEQ, MATCH } from "./symbols.js";
+import { Predicate, PatternOptions } from "./types.js";
 
 const operators = [ALL, SOME, NOT, LT, GT, LTE, GTE, EQ, NEQ, MATCH];
 
@@ -45,16 +45,7 @@ export function testOperator(value: any, operator: symbol, condition: any): bool
       return (valueType === "number" || valueType === "string") && value >= condition;
 
     case MATCH:
-      if (valueType === "string") {
-        try {
-          const sc = toSearchCriteria(condition);
-          return new RegExp(sc.pattern, sc.flags).test(value);
-        } catch {
-          console.error("Invalid regex pattern:", condition);
-          return false;
-        }
-      }
-      return false;
+      return valueType === "string" && testPattern(pattern(condition), value);
     case NOT:
       return !evalPredicate(value, condition);
     case ALL:
@@ -75,18 +66,276 @@ export function testOperator(value: any, operator: symbol, condition: any): bool
   return false;
 }
 
+/**
+ * Compiles a predicate into a function that gives the same results as evalPredicate().
+ * The operators present and the keys are found once and MATCH regexes are built once,
+ * so the function is faster when the predicate is evaluated many times.
+ */
+export function compilePredicate<T>(predicate: Predicate<T>): (value: T) => boolean {
+  return compile(predicate);
+}
+
+type Test = (value: any) => boolean;
+
+function compile(predicate: any): Test {
+  if (predicate == null || typeof predicate !== "object") {
+    return (value) => predicate === value;
+  }
+
+  if (Array.isArray(predicate)) {
+    const tests = predicate.map(compile);
+    return (value) => tests.some((test) => test(value));
+  }
+
+  const operatorTests = operators.filter((op) => op in predicate).map((op) => compileOperator(op, predicate[op]));
+  const keys = Object.keys(predicate);
+  const keyTests = keys.map((key) => compile(predicate[key]));
+
+  return (value) => {
+    for (const test of operatorTests) {
+      if (!test(value)) return false;
+    }
+    if (value == null || typeof value !== "object") {
+      return keys.length === 0;
+    }
+    for (let i = 0; i < keys.length; i++) {
+      if (!keyTests[i](value[keys[i]])) return false;
+    }
+    return true;
+  };
+}
+
+function compileOperator(operator: symbol, condition: any): Test {
+  switch (operator) {
+    case EQ:
+      return (value) => value == condition;
+    case NEQ:
+      return (value) => value != condition;
+    case LT:
+      return (value) => (typeof value === "number" || typeof value === "string") && value < condition;
+    case GT:
+      return (value) => (typeof value === "number" || typeof value === "string") && value > condition;
+    case LTE:
+      return (value) => (typeof value === "number" || typeof value === "string") && value <= condition;
+    case GTE:
+      return (value) => (typeof value === "number" || typeof value === "string") && value >= condition;
+    case MATCH: {
+      const regex = pattern(condition);
+      return (value) => typeof value === "string" && testPattern(regex, value);
+    }
+    case NOT: {
+      const test = compile(condition);
+      return (value) => !test(value);
+    }
+    case ALL: {
+      const test = compile(condition);
+      return (value) => value !== null && typeof value === "object" && Object.keys(value).every((key) => test(value[key]));
+    }
+    case SOME: {
+      const test = compile(condition);
+      return (value) => value !== null && typeof value === "object" && Object.keys(value).some((key) => test(value[key]));
+    }
+  }
+  return () => false;
+}
+
+// Copy of a select or update statement with its WHERE and PULL predicates compiled. Keys and ALL/DEEP_ALL hold
+// nested statements, everything else (operands, replacements, DEFAULT, CONTEXT) is kept as it is.
+export function compileWhere(statement: any): any {
+  if (statement == null || typeof statement !== "object" || Array.isArray(statement)) {
+    return statement;
+  }
+
+  const compiled: any = {};
+  for (const key of Reflect.ownKeys(statement)) {
+    const value = statement[key];
+    if (key === WHERE) {
+      compiled[key] = value && typeof value !== "function" ? compile(value) : value;
+    } else if (key === PULL) {
+      compiled[key] = compile(value);
+    } else if (typeof key === "string" || key === ALL || key === DEEP_ALL) {
+      compiled[key] = compileWhere(value);
+    } else {
+      compiled[key] = value;
+    }
+  }
+  return compiled;
+}
+
+/**
+ * Error for a MATCH pattern that can't be used: it isn't a valid regex, or the safety check rejected it.
+ * Predicates don't match values with such patterns and report the error to the onError option of configurePatterns().
+ */
+export class PatternError extends Error {
+  constructor(
+    public pattern: unknown,
+    public reason: "invalid" | "unsafe",
+    detail?: string,
+  ) {
+    super(`${reason === "invalid" ? "Invalid" : "Unsafe"} regex: ${String(pattern)}${detail ? ` (${detail})` : ""}`);
+    this.name = "PatternError";
+  }
+}
+
+const defaultOptions = { cacheSize: 500, isSafe: isSafePattern, onError: undefined } satisfies PatternOptions;
+
+let options: PatternOptions = defaultOptions;
+
+// Compiled patterns (or why they were rejected) by MATCH condition, oldest used first
+const cache = new Map<unknown, RegExp | PatternError>();
+
+/**
+ * Configures how MATCH patterns are compiled. Options that aren't given are reset to their defaults,
+ * so configurePatterns({}) restores the default configuration. The pattern cache is cleared.
+ */
+export function configurePatterns(config: PatternOptions) {
+  options = { ...defaultOptions, ...config };
+  cache.clear();
+}
+
+/**
+ * Default safety check for MATCH patterns. Rejects repeated groups that contain repetition or alternation,
+ * like (a+)+, (\w*\s?)* or (a|aa)+, which can take exponential time to fail on some inputs (catastrophic
+ * backtracking). It is conservative: safe patterns like [a-z]+(\.[a-z]+)* or (cat|dog)+ are rejected too.
+ * Repetition next to repetition, like \d+\d+$, isn't caught, it can take polynomial time.
+ */
+export function isSafePattern(pattern: string): boolean {
+  // Whether each open group (and the pattern itself, at the bottom) contains repetition or alternation
+  const repeats = [false];
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    let groupRepeats = false;
+
+    if (char === "\\") {
+      i += 2;
+    } else if (char === "[") {
+      // Skip the character class, quantifiers in it are literals
+      i++;
+      while (i < pattern.length && pattern[i] !== "]") {
+        i += pattern[i] === "\\" ? 2 : 1;
+      }
+      i++;
+    } else if (char === "(") {
+      repeats.push(false);
+      i++;
+      // Group prefixes like ?: ?= ?<name> aren't quantifiers
+      if (pattern[i] === "?") {
+        const prefix = /^\?(<[=!]|<[^>]*>|.)/.exec(pattern.slice(i));
+        i += prefix ? prefix[0].length : 1;
+      }
+      continue;
+    } else if (char === ")") {
+      groupRepeats = repeats.length > 1 ? repeats.pop()! : false;
+      i++;
+    } else if (char === "|") {
+      // A repeated group with alternatives that can match the same text backtracks like nested repetition
+      repeats[repeats.length - 1] = true;
+      i++;
+      continue;
+    } else {
+      i++;
+    }
+
+    const quantifier = /^(?:[*+]|\{(\d+)(,(\d*))?\})/.exec(pattern.slice(i));
+    if (quantifier) {
+      const [text, min, range, max] = quantifier;
+      const repeating = text.length === 1 || (range !== undefined && (max === "" || Number(max) > Number(min)));
+      if (repeating && groupRepeats) {
+        return false;
+      }
+      i += text.length;
+      // Lazy quantifier
+      if (pattern[i] === "?") i++;
+      groupRepeats ||= repeating;
+    }
+    if (groupRepeats) {
+      repeats[repeats.length - 1] = true;
+    }
+  }
+  return true;
+}
+
+// Builds or gets the cached regex of a MATCH condition, or the reason it can't be used
+function pattern(condition: unknown): RegExp | PatternError {
+  const cached = cache.get(condition);
+  if (cached) {
+    // Move to the end so the least recently used pattern is dropped first
+    cache.delete(condition);
+    cache.set(condition, cached);
+    return cached;
+  }
+
+  const regex = buildPattern(condition);
+  const size = options.cacheSize ?? defaultOptions.cacheSize;
+  if (size > 0) {
+    if (cache.size >= size) {
+      cache.delete(cache.keys().next().value);
+    }
+    cache.set(condition, regex);
+  }
+  return regex;
+}
+
+function buildPattern(condition: unknown): RegExp | PatternError {
+  if (typeof condition !== "string") {
+    return new PatternError(condition, "invalid", "not a string");
+  }
+
+  const { pattern, flags } = toSearchCriteria(condition);
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, flags);
+  } catch (error) {
+    return new PatternError(condition, "invalid", (error as Error).message);
+  }
+
+  const isSafe = options.isSafe ?? defaultOptions.isSafe;
+  if (isSafe && !isSafe(pattern, flags)) {
+    return new PatternError(condition, "unsafe");
+  }
+  return regex;
+}
+
+function testPattern(regex: RegExp | PatternError, value: string): boolean {
+  if (regex instanceof PatternError) {
+    options.onError?.(regex);
+    return false;
+  }
+  // Global and sticky regexes keep state between tests, every test starts fresh
+  regex.lastIndex = 0;
+  return regex.test(value);
+}
+
+// Builds the regex of a MATCH condition, throws a PatternError if it is invalid or unsafe
+export function toRegExp(condition: string): RegExp {
+  const regex = pattern(condition);
+  if (regex instanceof PatternError) {
+    throw regex;
+  }
+  return regex;
+}
+
 function toSearchCriteria(inputString: string) {
+  let pattern = inputString;
+  let flags = "";
+
   // Check if the string is in the /pattern/flags format.
   // It must start with a slash and have another slash later on.
   if (inputString.startsWith("/") && inputString.lastIndexOf("/") > 0) {
     const lastSlashIndex = inputString.lastIndexOf("/");
 
-    const pattern = inputString.substring(1, lastSlashIndex);
-    const flags = inputString.substring(lastSlashIndex + 1);
+    pattern = inputString.substring(1, lastSlashIndex);
+    flags = inputString.substring(lastSlashIndex + 1);
+  }
 
-    return { pattern, flags };
-  } else {
-    // If not, the entire string is the pattern and there are no flags.
-    return { pattern: inputString, flags: "" };
+  // Inline flags at the start of the pattern, like (?i), aren't supported by JavaScript regexes
+  const inline = /^\(\?([ims]+)\)/.exec(pattern);
+  if (inline) {
+    pattern = pattern.substring(inline[0].length);
+    flags += [...inline[1]].filter((flag) => !flags.includes(flag)).join("");
   }
+
+  return { pattern, flags };
 }
@@ -1,17 +1,172 @@
-import { ALL, DEEP_ALL, NOT, WHERE } from "./symbols.js";
+import {
+  AGGREGATE,
+  ALL,
+  AS,
+  AVG,
+  BY_KEY,
+  COUNT,
+  DEEP_ALL,
+  GROUP_BY,
+  LIMIT,
+  MAX,
+  MIN,
+  NOT,
+  OFFSET,
+  ORDER_BY,
+  SUM,
+  WHERE,
+} from "./symbols.js";
 import { Select, SelectResult } from "./types.js";
-import { evalPredicate } from "./predicate.js";
+import { evalPredicate, compileWhere } from "./predicate.js";
 import { toJSON } from "./serialization.js";
 
-export function select<T>(data: T, stmt: Select<T>): SelectResult<T> | undefined {
+export function select<T, const S extends Select<T>>(data: T, stmt: S): SelectResult<T, S> | undefined {
   const result = selectImpl(data, stmt);
   return result === NO_RESULT ? undefined : result;
 }
 
+/**
+ * Prepares a select statement for repeated use. The statement is analyzed once: each of its objects is taken apart
+ * into the parts selectImpl() works with, and its WHERE predicates are compiled with compilePredicate().
+ * The returned function gives the same results as select(data, stmt). Its result is typed by the statement when S
+ * is given, e.g. compileSelect<T, typeof stmt>(stmt), and like select() without a statement type otherwise.
+ */
+export function compileSelect<T, const S extends Select<T> = never>(
+  stmt: S | Select<T>,
+): (data: T) => SelectResult<T, S> | undefined {
+  const compiled = compileWhere(stmt);
+  compiledStatements.add(compiled);
+  return (data) => {
+    const result = selectImpl(data, compiled);
+    return result === NO_RESULT ? undefined : result;
+  };
+}
+
 const NO_RESULT = Symbol();
 type ImplResult = SelectResult<any> | typeof NO_RESULT;
+
+type Paging = { orderBy?: any; limit?: number; offset?: number };
+
+// A select statement taken apart, with the statements selectImpl() derives from it built once
+type SelectPlan = {
+  deepAll: any;
+  all: any;
+  where: any;
+  projections: any;
+  groupBy: any;
+  aggregates: any;
+  byKey: any;
+  rest: Record<string, any>;
+  paging: Paging;
+  paged: boolean;
+  grouped: boolean;
+  // No keys to select: {} selects the whole value
+  empty: boolean;
+  // The statement for the record of elements by key
+  byKeyStmt?: any;
+  // DEEP_ALL parts: the WHERE predicate, the projection and the statements for each data key
+  predicate?: any;
+  projection: Record<string, any>;
+  keyStmts: Record<string, any>;
+  deepStmts: Record<string, any>;
+  whereStmt?: any;
+  deepWhereStmt?: any;
+  fields: [string, any][];
+};
+
+// Statements of compileSelect() and the statements derived from them, their plans are kept
+const compiledStatements = new WeakSet<object>();
+const plans = new WeakMap<object, SelectPlan>();
+
+function planOf(stmt: any): SelectPlan {
+  let plan = plans.get(stmt);
+  if (!plan) {
+    const compiled = compiledStatements.has(stmt);
+    plan = analyze(stmt, compiled);
+    if (compiled) {
+      plans.set(stmt, plan);
+    }
+  }
+  return plan;
+}
+
+// Takes a statement apart. The nested and derived statements of a compiled statement keep their plans too.
+function analyze(stmt: any, compiled: boolean): SelectPlan {
+  const {
+    [DEEP_ALL]: deepAll,
+    [ALL]: all,
+    [WHERE]: where,
+    [AS]: projections,
+    [ORDER_BY]: orderBy,
+    [LIMIT]: limit,
+    [OFFSET]: offset,
+    [GROUP_BY]: groupBy,
+    [AGGREGATE]: aggregates,
+    [BY_KEY]: byKey,
+    ...rest
+  } = stmt;
+  // Paging inside DEEP_ALL applies to every array of its result
+  const paging = { orderBy: orderBy ?? deepAll?.[ORDER_BY], limit: limit ?? deepAll?.[LIMIT], offset: offset ?? deepAll?.[OFFSET] };
+  const plan: SelectPlan = {
+    deepAll,
+    all,
+    where,
+    projections,
+    groupBy,
+    aggregates,
+    byKey,
+    rest,
+    paging,
+    paged: paging.orderBy !== undefined || paging.limit !== undefined || paging.offset !== undefined,
+    grouped: groupBy !== undefined || aggregates !== undefined,
+    // Empty select statement {} is equivalent to true. In general in tsqn {} is true and [] is false
+    empty: deepAll === undefined && all === undefined && projections === undefined && Object.keys(rest).length === 0,
+    projection: {},
+    keyStmts: {},
+    deepStmts: {},
+    fields: [],
+  };
+  const nested: any[] = [all, ...Object.values(rest)];
+
+  if (byKey !== undefined) {
+    plan.byKeyStmt = { ...stmt, [WHERE]: undefined, [BY_KEY]: undefined };
+    nested.push(plan.byKeyStmt);
+  }
+
+  if (deepAll) {
+    const { [WHERE]: predicate, ...projection } = deepAll;
+    const deepPaging = { [ORDER_BY]: deepAll[ORDER_BY], [LIMIT]: deepAll[LIMIT], [OFFSET]: deepAll[OFFSET] };
+    plan.predicate = predicate;
+    plan.projection = projection;
+    if (predicate == null) {
+      for (const projectKey of Object.keys(projection)) {
+        // The paging applies to projected arrays as well, true selects the whole value like {}
+        const keyStmt = projection[projectKey] === true ? {} : projection[projectKey];
+        plan.keyStmts[projectKey] = keyStmt != null && typeof keyStmt === "object" ? { ...deepPaging, ...keyStmt } : keyStmt;
+        plan.deepStmts[projectKey] = { [DEEP_ALL]: { ...deepPaging, [projectKey]: projection[projectKey] } };
+      }
+      nested.push(...Object.values(plan.keyStmts), ...Object.values(plan.deepStmts));
+    } else {
+      plan.whereStmt = { [WHERE]: predicate };
+      plan.deepWhereStmt = { [DEEP_ALL]: { ...deepPaging, [WHERE]: predicate } };
+      plan.fields = Object.keys(projection).map((projectKey) => [projectKey, { [projectKey]: projection[projectKey] }]);
+      nested.push(plan.whereStmt, plan.deepWhereStmt, ...plan.fields.map(([, field]) => field));
+    }
+  }
+
+  if (compiled) {
+    for (const value of nested) {
+      if (value != null && typeof value === "object") {
+        compiledStatements.add(value);
+      }
+    }
+  }
+  return plan;
+}
+
 export function selectImpl(data: any, stmt: Select<any>, result: ImplResult = NO_RESULT): ImplResult {
-  const { [DEEP_ALL]: deepAll, [ALL]: all, [WHERE]: where, ...rest } = stmt as any;
+  const plan = planOf(stmt);
+  const { deepAll, all, where, projections, groupBy, aggregates, byKey, rest, paging, paged, grouped } = plan;
 
   if (where) {
     // Check if it's a function or a predicate
@@ -21,9 +176,17 @@ export function selectImpl(data: any, stmt: Select<any>, result: ImplResult = NO
     }
   }
 
-  // Empty select statement {} is equivalent to true. In general in tsqn {} is true and [] is false
-  if (deepAll === undefined && all === undefined && Object.keys(rest).length === 0) {
-    return data;
+  // Elements addressed by key are selected from a record of the elements by their byKey field
+  if (byKey !== undefined && Array.isArray(data)) {
+    return selectImpl(keyElements(data, byKey), plan.byKeyStmt, result);
+  }
+
+  if (plan.empty) {
+    const values = paged && Array.isArray(data) ? page(data, data, paging)[0] : data;
+    if (grouped && values != null && typeof values === "object") {
+      return summarize(Object.values(values), Object.values(values), groupBy, aggregates);
+    }
+    return values;
   }
 
   if (data == null || typeof data !== "object") {
@@ -61,28 +224,28 @@ export function selectImpl(data: any, stmt: Select<any>, result: ImplResult = NO
   }
 
   if (deepAll) {
-    const { [WHERE]: predicate, ...projection } = deepAll;
+    const { predicate, projection, keyStmts, deepStmts } = plan;
 
     for (const dataKey of Object.keys(data)) {
       if (predicate == null) {
         for (const projectKey of Object.keys(projection)) {
           if (dataKey === projectKey) {
-            addToResult(dataKey, projection[projectKey]);
+            addToResult(dataKey, keyStmts[projectKey]);
           } else if (data[dataKey] != null && typeof data[dataKey] === "object") {
-            addToResult(dataKey, { [DEEP_ALL]: { [projectKey]: projection[projectKey] } });
+            addToResult(dataKey, deepStmts[projectKey]);
           }
         }
       } else {
-        let addResult = addToResult(dataKey, { [WHERE]: predicate });
+        let addResult = addToResult(dataKey, plan.whereStmt);
         if (addResult === NO_RESULT) {
           //The predicate didn't apply. If the data is an object, go deeper
           if (data[dataKey] != null && typeof data[dataKey] === "object") {
-            addResult = addToResult(dataKey, { [DEEP_ALL]: { [WHERE]: predicate } });
+            addResult = addToResult(dataKey, plan.deepWhereStmt);
           }
         }
 
         if (addResult !== NO_RESULT) {
-          widenResult(data[dataKey], result[dataKey], projection);
+          widenResult(data[dataKey], result[dataKey], plan.fields);
         }
       }
     }
@@ -94,7 +257,10 @@ export function selectImpl(data: any, stmt: Select<any>, result: ImplResult = NO
     }
   }
 
+  // Data indices of the compacted result, so paging can sort by the original elements
+  let indices: number[] | undefined;
   if (Array.isArray(result) && result.length > 0) {
+    indices = Object.keys(result).map(Number);
     result = result.filter((v, i) => i in result);
   }
 
@@ -102,28 +268,174 @@ export function selectImpl(data: any, stmt: Select<any>, result: ImplResult = NO
     addToResult(key, rest[key]);
   }
 
+  if (projections && !Array.isArray(data)) {
+    for (const key of Object.keys(projections)) {
+      const value = project(data, projections[key]);
+      if (value !== undefined) {
+        if (result == NO_RESULT) {
+          result = {};
+        }
+        result[key] = value;
+      }
+    }
+  }
+
+  if ((paged && Array.isArray(data) && Array.isArray(result)) || grouped) {
+    // Selected elements and the data elements they were selected from
+    const keys = result === NO_RESULT ? [] : Object.keys(result);
+    let values = keys.map((key) => result[key]);
+    let sources = keys.map((key) => (Array.isArray(data) ? data[indices?.[Number(key)] ?? Number(key)] : data[key]));
+
+    if (paged && Array.isArray(data) && Array.isArray(result)) {
+      [values, sources] = page(values, sources, paging);
+      result = values;
+    }
+
+    if (grouped) {
+      result = summarize(values, sources, groupBy, aggregates);
+    }
+  }
+
+  return result;
+}
+
+// Record of the elements by the value of their key field, the first element with a value is kept
+function keyElements(array: any[], field: string) {
+  // Without a prototype, so keys like "constructor" aren't found on it
+  const record: Record<string, any> = Object.create(null);
+  for (const element of array) {
+    const key = element != null && typeof element === "object" ? element[field] : undefined;
+    if ((typeof key === "string" || typeof key === "number") && !(key in record)) {
+      record[key] = element;
+    }
+  }
+  return record;
+}
+
+// Sorts the selected elements by their source elements, then applies offset and limit
+function page(values: any[], sources: any[], { orderBy, limit, offset = 0 }: Paging): [any[], any[]] {
+  let order = values.map((_, i) => i);
+  if (orderBy !== undefined) {
+    const keys = (Array.isArray(orderBy) ? orderBy : [orderBy]).map((k) => (typeof k === "object" ? k : { key: k }));
+    order.sort((a, b) => {
+      for (const { key, desc, nulls } of keys) {
+        const compare = compareValues(resolve(sources[a], key), resolve(sources[b], key), desc, nulls);
+        if (compare !== 0) return compare;
+      }
+      return 0;
+    });
+  }
+
+  order = order.slice(offset, limit === undefined ? undefined : offset + limit);
+  return [order.map((i) => values[i]), order.map((i) => sources[i])];
+}
+
+// Buckets the selected elements by the GROUP_BY key, then aggregates each bucket
+function summarize(values: any[], sources: any[], groupBy: any, aggregates: Record<string, any> | undefined) {
+  if (groupBy === undefined) {
+    return aggregate(sources, aggregates ?? {});
+  }
+
+  const groups: Record<string, { values: any[]; sources: any[] }> = {};
+  sources.forEach((source, i) => {
+    const group = (groups[String(resolve(source, groupBy))] ??= { values: [], sources: [] });
+    group.values.push(values[i]);
+    group.sources.push(source);
+  });
+
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(groups)) {
+    result[key] = aggregates === undefined ? groups[key].values : aggregate(groups[key].sources, aggregates);
+  }
   return result;
 }
 
-function widenResult(data: any, result: any, projections: Record<string, any>) {
+function aggregate(sources: any[], aggregates: Record<string, any>) {
+  const result: Record<string, any> = {};
+  for (const name of Object.keys(aggregates)) {
+    const [operator] = Object.getOwnPropertySymbols(aggregates[name]);
+    const operand = aggregates[name][operator];
+    // true aggregates the elements themselves
+    const values = sources.map((source) => (operand === true ? source : resolve(source, operand)));
+    const present = values.filter((value) => value != null);
+    const numbers = values.filter((value) => typeof value === "number");
+
+    switch (operator) {
+      case COUNT:
+        result[name] = operand === true ? sources.length : present.length;
+        break;
+      case SUM:
+        result[name] = numbers.reduce((sum, value) => sum + value, 0);
+        break;
+      case AVG:
+        result[name] = numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : undefined;
+        break;
+      case MIN:
+        result[name] = present.reduce((min, value) => (min === undefined || value < min ? value : min), undefined);
+        break;
+      case MAX:
+        result[name] = present.reduce((max, value) => (max === undefined || value > max ? value : max), undefined);
+        break;
+      default:
+        throw Error(`Can't aggregate without an operator: ${name}`);
+    }
+  }
+  return result;
+}
+
+function compareValues(a: any, b: any, desc?: boolean, nulls?: "first" | "last") {
+  if (a == null || b == null) {
+    if (a == null && b == null) return 0;
+    return (a == null ? 1 : -1) * (nulls === "first" ? -1 : 1);
+  }
+
+  const compare = a < b ? -1 : a > b ? 1 : 0;
+  return desc ? -compare : compare;
+}
+
+// Value at a key or path, undefined if a step is missing
+function resolve(data: any, key: string | number | (string | number)[] | undefined) {
+  const path = key === undefined ? [] : Array.isArray(key) ? key : [key];
+  let value = data;
+  for (const k of path) {
+    if (value == null || typeof value !== "object") {
+      return undefined;
+    }
+    value = value[k];
+  }
+  return value;
+}
+
+// A projection is a key, a path of keys or a function of the selected object
+function project(data: any, projection: any) {
+  if (typeof projection === "function") {
+    return projection(data);
+  }
+
+  return resolve(data, projection);
+}
+
+// fields: the projected keys with the statements that select them
+function widenResult(data: any, result: any, fields: [string, any][]) {
   if (data == null || typeof data !== "object" || result == null || typeof result !== "object") {
     return;
   }
 
   for (const resultKey of Object.keys(result)) {
-    for (const projectKey of Object.keys(projections)) {
+    for (const field of fields) {
+      const [projectKey, fieldStmt] = field;
       // If field is in data, then select it
       if (projectKey in data) {
         // Only select it if wasn't already selected
         if (!(projectKey in result)) {
-          const fieldResult = selectImpl(data, { [projectKey]: projections[projectKey] });
+          const fieldResult = selectImpl(data, fieldStmt);
           if (fieldResult !== NO_RESULT) {
             result[projectKey] = fieldResult[projectKey];
           }
         }
       }
       // Go down the result path and widen recursively
-      widenResult(data[resultKey], result[resultKey], { [projectKey]: projections[projectKey] });
+      widenResult(data[resultKey], result[resultKey], [field]);
     }
   }
 }
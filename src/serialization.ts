@@ -9,7 +9,8 @@
  */
 
 import { 
-  ALL, DEEP_ALL, WHERE, DEFAULT, CONTEXT, META,
+  ALL, DEEP_ALL, WHERE, DEFAULT, UPSERT, CONTEXT, META, ARRAY, BY_KEY,
+  PUSH, INSERT, SPLICE, MOVE, ADD_TO_SET, PULL, INC, MUL, MIN, MAX, APPEND, REF, RENAME, AS, ORDER_BY, LIMIT, OFFSET, GROUP_BY, AGGREGATE, COUNT, SUM, AVG, LOOKUP,
   LT, GT, LTE, GTE, EQ, NEQ, NOT, MATCH, SOME 
 } from './symbols.js';
 
@@ -31,8 +32,34 @@ const symbolToString = new Map<symbol, string>([
   [DEEP_ALL, "**"],
   [WHERE, "?"],
   [DEFAULT, "{}"],
+  [UPSERT, "@upsert"],
   [CONTEXT, "$"],
   [META, "#"],
+  [ARRAY, "#array"],
+  [BY_KEY, "@byKey"],
+  [PUSH, "@push"],
+  [INSERT, "@insert"],
+  [SPLICE, "@splice"],
+  [MOVE, "@move"],
+  [ADD_TO_SET, "@addToSet"],
+  [PULL, "@pull"],
+  [INC, "@inc"],
+  [MUL, "@mul"],
+  [MIN, "@min"],
+  [MAX, "@max"],
+  [APPEND, "@append"],
+  [REF, "@ref"],
+  [RENAME, "@rename"],
+  [AS, "@as"],
+  [ORDER_BY, "@orderBy"],
+  [LIMIT, "@limit"],
+  [OFFSET, "@offset"],
+  [GROUP_BY, "@groupBy"],
+  [AGGREGATE, "@aggregate"],
+  [COUNT, "@count"],
+  [SUM, "@sum"],
+  [AVG, "@avg"],
+  [LOOKUP, "@lookup"],
   [LT, "<"],
   [GT, ">"],
   [LTE, "<="],
@@ -0,0 +1,86 @@
+import type { Update, UpdateResult, ChangeDetector, StoreListener } from "./types.js";
+import { updateImpl, mergeResults, transaction } from "./update.js";
+import { hasChanges } from "./change-detection.js";
+
+type Subscription<T> = {
+  detector: ChangeDetector<T>;
+  listener: StoreListener<T>;
+};
+
+/**
+ * Wraps data with update() and notifies subscribers whose detector matches the changes.
+ * Updates inside batch() and committed transactions notify each listener at most once.
+ */
+export function createStore<T extends object>(data: T) {
+  const subscriptions = new Set<Subscription<T>>();
+  let batchDepth = 0;
+  let pending: UpdateResult<T> | undefined;
+
+  function notify(changes: UpdateResult<T> | undefined) {
+    if (!changes) return;
+
+    if (batchDepth > 0) {
+      if (pending) {
+        mergeResults(pending, changes);
+      } else {
+        pending = changes;
+      }
+      return;
+    }
+
+    // copy so listeners can unsubscribe while being notified
+    for (const { detector, listener } of [...subscriptions]) {
+      if (hasChanges(changes, detector)) {
+        listener(changes, data);
+      }
+    }
+  }
+
+  return {
+    get data() {
+      return data;
+    },
+    update(stmt: Update<T>) {
+      const changes = updateImpl(data, stmt);
+      notify(changes);
+      return changes;
+    },
+    // Listeners are notified once on commit, nothing is notified on revert
+    transaction() {
+      const tx = transaction(data);
+      return {
+        update(stmt: Update<T>) {
+          tx.update(stmt);
+          return this;
+        },
+        commit: () => {
+          const changes = tx.commit();
+          notify(changes);
+          return changes;
+        },
+        revert: tx.revert,
+      };
+    },
+    // Runs fn and notifies listeners once for all updates made inside it
+    batch(fn: () => void) {
+      batchDepth++;
+      try {
+        fn();
+      } finally {
+        if (--batchDepth === 0) {
+          const changes = pending;
+          pending = undefined;
+          notify(changes);
+        }
+      }
+    },
+    // Returns a function that removes the listener
+    subscribe(detector: ChangeDetector<T>, listener: StoreListener<T>) {
+      const subscription = { detector, listener };
+      subscriptions.add(subscription);
+      return () => {
+        subscriptions.delete(subscription);
+      };
+    },
+  };
+}
@@ -2,8 +2,46 @@
 export const ALL = Symbol("*"); // Apply update to all properties
 export const WHERE = Symbol("?"); // Conditional filter for updates
 export const DEFAULT = Symbol("{}"); // Default value for null fields
+export const UPSERT = Symbol("@upsert"); // Create missing objects and arrays the statement updates: [UPSERT]: true
 export const CONTEXT = Symbol("$"); // Context variables
 export const META = Symbol("#"); // Track structural changes (delete/replace) in DataChange
+export const ARRAY = Symbol("#array"); // Marks the DataChange of an array that changed length, its META.length is the original length
+export const BY_KEY = Symbol("@byKey"); // Address array elements by a key of theirs instead of the index: [BY_KEY]: "id"
+
+// Array update operators
+export const PUSH = Symbol("@push"); // Append elements: [PUSH]: [a, b]
+export const INSERT = Symbol("@insert"); // Insert elements at an index: [INSERT]: [index, a, b]
+export const SPLICE = Symbol("@splice"); // Same arguments as Array.splice: [SPLICE]: [start, deleteCount, a, b]
+export const MOVE = Symbol("@move"); // Move an element to another index: [MOVE]: [from, to]
+export const ADD_TO_SET = Symbol("@addToSet"); // Append elements that aren't in the array yet: [ADD_TO_SET]: [a, b]
+export const PULL = Symbol("@pull"); // Remove all elements matching a predicate: [PULL]: "admin"
+
+// Value update operators
+export const INC = Symbol("@inc"); // Add to a number
+export const MUL = Symbol("@mul"); // Multiply a number
+export const MIN = Symbol("@min"); // Keep the smaller of the value and the operand
+export const MAX = Symbol("@max"); // Keep the larger of the value and the operand
+export const APPEND = Symbol("@append"); // Concatenate to a string
+export const REF = Symbol("@ref"); // Value at a path: "$.subtotal" from the data, "@.price" from the updated object, "rate" a CONTEXT variable
+
+// Key update operators
+export const RENAME = Symbol("@rename"); // Move values to other keys or paths: [RENAME]: { fullname: "displayName" }
+
+// Select operators
+export const AS = Symbol("@as"); // Projected result fields: renamed paths or computed values
+export const ORDER_BY = Symbol("@orderBy"); // Sort selected array elements: [ORDER_BY]: ["name", { key: "price", desc: true }]
+export const LIMIT = Symbol("@limit"); // Maximum number of selected array elements
+export const OFFSET = Symbol("@offset"); // Number of selected array elements to skip
+export const GROUP_BY = Symbol("@groupBy"); // Bucket selected elements by a key or path
+export const AGGREGATE = Symbol("@aggregate"); // Named aggregations of selected elements: { total: { [SUM]: "price" } }
+
+// Aggregation operators, also MIN and MAX
+export const COUNT = Symbol("@count"); // Number of elements, or of non-null values at a key
+export const SUM = Symbol("@sum"); // Sum of numbers
+export const AVG = Symbol("@avg"); // Average of numbers
+
+// Transform operators
+export const LOOKUP = Symbol("@lookup"); // Resolve ids against a record of the transformed data: [LOOKUP]: ["catalog", "items"]
 
 /**
  * Deep recursive selection/update operator
@@ -69,7 +107,22 @@ export const META = Symbol("#"); // Track structural changes (delete/replace) in
  * - When an object matches, DEEP_ALL continues traversing its children
  * 
  * ## Semantics in update operations:
- * [To be documented when implementing update support]
+ * 
+ * DEEP_ALL applies an Update<any> statement to every object nested at any depth below the
+ * object it appears in. The statement's WHERE selects which objects are updated.
+ * 
+ * ```typescript
+ * [DEEP_ALL]: {
+ *   [WHERE]: { type: "price" },  // Objects to update
+ *   currency: "EUR"              // Applied to each of them
+ * }
+ * ```
+ * - Without WHERE every nested object is updated
+ * - Traversal continues into the children of updated objects, after the update
+ * - Objects reached twice (cycles, shared references) are visited once
+ * - Objects the statement itself creates are not visited
+ * - Changes are recorded along the real paths, so undo() and invert() work as for any update
+ * - Runs after the other keys and array operators of the statement, so it also reaches new values
  * 
  * ## Semantics in other operations:
  * [To be documented as operations are added]
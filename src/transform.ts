@@ -1,18 +1,16 @@
-// Transform types - will be moved to types.ts later
-type AccessTransform = string | number;
+/**
+ * Transform statements for tsqn
+ *
+ * A transform reshapes data: a key reads a value, an object builds a new object from the data,
+ * an array chains transforms. Arrays distribute transforms over their elements, and WHERE
+ * filters the values a select transform is applied to. LOOKUP joins ids with a record of the data.
+ */
 
-type SelectTransform = {
-  [key: string]: Transform | boolean;
-};
+import { WHERE, DEFAULT, LOOKUP } from "./symbols.js";
+import type { Transform, TransformResult } from "./types.js";
+import { evalPredicate } from "./predicate.js";
 
-// Single transforms (everything except chains)
-type SingleTransform = AccessTransform | SelectTransform;
-
-// Chained transform can only contain single transforms
-type ChainedTransform = SingleTransform[];
-
-// Main transform type
-type Transform = SingleTransform | ChainedTransform;
+type SelectTransform = { [key: string]: Transform | boolean; [WHERE]?: any; [LOOKUP]?: Transform; [DEFAULT]?: any };
 
 // Helper to check if a string is a valid array index
 function isArrayIndex(key: string): boolean {
@@ -25,8 +23,19 @@ function isSelectTransform(value: any): value is SelectTransform {
   return value !== null && typeof value === "object" && !Array.isArray(value);
 }
 
-// Main transform function
-export function transform(data: any, stmt: Transform): any {
+/**
+ * Reshape data with a transform statement
+ *
+ * @param data - The data to transform
+ * @param stmt - A key or index, an object of transforms, or a chain of them
+ * @returns The transformed value, undefined for missing data or when WHERE doesn't match
+ */
+export function transform<T, const S extends Transform<T>>(data: T, stmt: S): TransformResult<T, S> {
+  return transformImpl(data, stmt, data);
+}
+
+// root: the data passed to transform(), LOOKUP records are read from it
+function transformImpl(data: any, stmt: Transform, root: any): any {
   // Handle null/undefined data
   if (data == null) {
     return undefined;
@@ -41,14 +50,31 @@ export function transform(data: any, stmt: Transform): any {
 
     // Apply transforms sequentially using recursion
     const [head, ...tail] = stmt;
-    return transform(transform(data, head), tail);
+    return transformImpl(transformImpl(data, head, root), tail, root);
   }
 
   // Handle SelectTransform (object with selections/transforms)
   if (isSelectTransform(stmt)) {
-    // If data is an array, distribute the SelectTransform
+    if (stmt[LOOKUP] !== undefined) {
+      return lookup(data, stmt, root);
+    }
+
+    const where = stmt[WHERE];
+
+    // If data is an array, distribute the SelectTransform over the elements WHERE matches
     if (Array.isArray(data)) {
-      return data.map((item) => transform(item, stmt));
+      const items = where ? data.filter((item) => testWhere(item, where)) : data;
+      return items.map((item) => transformImpl(item, stmt, root));
+    }
+
+    if (where) {
+      if (!testWhere(data, where)) {
+        return undefined;
+      }
+      // A WHERE-only transform filters without reshaping
+      if (Object.keys(stmt).length === 0) {
+        return data;
+      }
     }
 
     const result: any = {};
@@ -70,8 +96,8 @@ export function transform(data: any, stmt: Transform): any {
         // Otherwise, apply each nested transform to the original data
         if (data[key] !== undefined && data[key] !== null) {
           // Key exists - apply nested SelectTransform to data[key]
-          const transformed = transform(data[key], value);
-          if (transformed !== undefined && Object.keys(transformed).length > 0) {
+          const transformed = transformImpl(data[key], value, root);
+          if (transformed !== undefined && (typeof transformed !== "object" || Object.keys(transformed).length > 0)) {
             result[key] = transformed;
           }
         } else {
@@ -86,7 +112,7 @@ export function transform(data: any, stmt: Transform): any {
               continue;
             } else {
               // Apply nested transform to original data
-              const transformed = transform(data, nestedValue);
+              const transformed = transformImpl(data, nestedValue, root);
               if (transformed !== undefined) {
                 nestedResult[nestedKey] = transformed;
               }
@@ -98,7 +124,7 @@ export function transform(data: any, stmt: Transform): any {
         }
       } else {
         // Other transforms (AccessTransform, ChainedTransform) apply to entire data
-        const transformed = transform(data, value);
+        const transformed = transformImpl(data, value, root);
         if (transformed !== undefined) {
           result[key] = transformed;
         }
@@ -121,7 +147,7 @@ export function transform(data: any, stmt: Transform): any {
         return data[Number(stmt)];
       }
       // Non-numeric string - distribute across all elements
-      return data.map((item) => transform(item, stmt));
+      return data.map((item) => transformImpl(item, stmt, root));
     }
   }
 
@@ -133,125 +159,27 @@ export function transform(data: any, stmt: Transform): any {
   return undefined;
 }
 
-// Example types and data for testing
-type MenuItem = {
-  id: string;
-  name: string;
-  price: number;
-  description?: string;
-  category: string;
-  available: boolean;
-  tags?: string[];
-};
-
-type MenuData = {
-  groups: Record<
-    string,
-    {
-      id: string;
-      name: string;
-      items: string[]; // Array of item IDs
-    }
-  >;
-  items: Record<string, MenuItem>;
-};
-
-const stmt = ["groups", "coffee", "items", ["items"]];
-
-const stmt2 = ["items", [["groups", "coffee", "items"]]];
+// Replaces ids (or arrays of them) with the objects they key in the LOOKUP record, then applies the rest of the
+// statement to those. Missing ids are dropped from arrays and undefined otherwise, unless DEFAULT replaces them.
+function lookup(data: any, stmt: SelectTransform, root: any) {
+  const { [LOOKUP]: path, [DEFAULT]: fallback, ...rest } = stmt;
+  const record = transformImpl(root, path!, root);
+  const hasFallback = DEFAULT in stmt;
+
+  const join = (id: any) => {
+    const found = record != null && (typeof id === "string" || typeof id === "number") && Object.prototype.hasOwnProperty.call(record, id);
+    const value = found ? record[id] : undefined;
+    return value === undefined && hasFallback ? fallback : value;
+  };
+  // Without other keys or WHERE the joined values are returned whole
+  const project = (value: any) => (Reflect.ownKeys(rest).length > 0 ? transformImpl(value, rest, root) : value);
 
-// Example data
-const exampleData: MenuData = {
-  groups: {
-    appetizers: {
-      id: "appetizers",
-      name: "Appetizers",
-      items: ["item1", "item2"],
-    },
-    mains: {
-      id: "mains",
-      name: "Main Courses",
-      items: ["item3", "item4", "item5"],
-    },
-    desserts: {
-      id: "desserts",
-      name: "Desserts",
-      items: ["item6"],
-    },
-  },
-  items: {
-    item1: {
-      id: "item1",
-      name: "Spring Rolls",
-      price: 8.99,
-      description: "Crispy vegetable spring rolls",
-      category: "appetizers",
-      available: true,
-      tags: ["vegetarian", "crispy"],
-    },
-    item2: {
-      id: "item2",
-      name: "Chicken Wings",
-      price: 12.99,
-      category: "appetizers",
-      available: true,
-      tags: ["spicy", "popular"],
-    },
-    item3: {
-      id: "item3",
-      name: "Grilled Salmon",
-      price: 24.99,
-      description: "Fresh Atlantic salmon with herbs",
-      category: "mains",
-      available: true,
-      tags: ["healthy", "gluten-free"],
-    },
-    item4: {
-      id: "item4",
-      name: "Beef Steak",
-      price: 32.99,
-      description: "Prime cut beef with sides",
-      category: "mains",
-      available: false,
-      tags: ["popular"],
-    },
-    item5: {
-      id: "item5",
-      name: "Pasta Carbonara",
-      price: 18.99,
-      description: "Classic Italian pasta",
-      category: "mains",
-      available: true,
-    },
-    item6: {
-      id: "item6",
-      name: "Chocolate Cake",
-      price: 7.99,
-      description: "Rich dark chocolate cake",
-      category: "desserts",
-      available: true,
-      tags: ["sweet", "popular"],
-    },
-  },
-};
+  if (Array.isArray(data)) {
+    return project(data.map(join).filter((value) => value !== undefined));
+  }
+  return project(join(data));
+}
 
-// Example transforms you can try:
-//
-// Get all item names:
-// transform(exampleData, ["items", "name"])
-//
-// Get appetizer group with just item names:
-// transform(exampleData, {
-//   appetizers: ["groups", "appetizers", {
-//     name: true,
-//     itemNames: ["items", ["groups", "appetizers", "items"], "name"]
-//   }]
-// })
-//
-// Get all available items with name and price:
-// transform(exampleData, {
-//   available: ["items", { name: true, price: true, available: true }]
-// })
-//
-// Get items by category:
-// transform(exampleData, ["groups", { name: true, items: true }])
+function testWhere(value: any, where: any): boolean {
+  return typeof where === "function" ? where(value) : evalPredicate(value, where);
+}
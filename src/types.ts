@@ -1,10 +1,36 @@
+import type { PatternError } from "./predicate.js";
 import {
   ALL,
   DEEP_ALL,
   WHERE,
   DEFAULT,
+  UPSERT,
+  RENAME,
   CONTEXT,
   META,
+  ARRAY,
+  BY_KEY,
+  PUSH,
+  INSERT,
+  SPLICE,
+  MOVE,
+  ADD_TO_SET,
+  PULL,
+  INC,
+  MUL,
+  MIN,
+  MAX,
+  APPEND,
+  REF,
+  AS,
+  ORDER_BY,
+  LIMIT,
+  OFFSET,
+  GROUP_BY,
+  AGGREGATE,
+  COUNT,
+  SUM,
+  AVG,
   LT,
   GT,
   LTE,
@@ -14,11 +40,17 @@ import {
   NOT,
   MATCH,
   SOME,
+  LOOKUP,
 } from "./symbols.js";
 
 // Helper type to extract only string keys from T
 type StringKeys<T> = Extract<keyof T, string>;
 
+// Keys of element type E that can address elements with BY_KEY: fields with string or number values
+type KeyFields<E> = [E] extends [object]
+  ? { [K in StringKeys<E>]-?: NonNullable<E[K]> extends string | number ? K : never }[StringKeys<E>]
+  : never;
+
 // Helper type to check if a property is optional
 type IsOptional<T, K extends keyof T> = {} extends Pick<T, K> ? true : false;
 
@@ -40,6 +72,17 @@ type UpdateFunction<TValue, TData, TKey = string> = (
   ctx?: Record<string, any>,
 ) => Update<TValue>;
 
+// Initial value for a missing object UPSERT creates, by the path of keys from the UPSERT statement.
+// Undefined creates an empty object, or an array for statements with array operators.
+export type UpsertFactory = (path: string[]) => object | undefined;
+
+// Path REF reads when the statement is applied: "$.a.b" or ["$", "a", "b"] from the updated data, "@.key" from the
+// object being updated, any other first key names a CONTEXT variable
+export type RefPath = string | readonly (string | number)[];
+
+// Value read from another path, it replaces the updated value or is the operand of a value operator
+export type Reference = { [REF]: RefPath };
+
 // Deletion marker for removing optional properties
 export type Delete = [];
 
@@ -64,27 +107,64 @@ type DeepPartial<T> = T extends readonly any[]
 
 export type DataChange<T> = UpdateResult<T>;
 
+// Value operators for number fields, applied in order INC, MUL, MIN, MAX to the referenced value if REF is given
+type NumberOperators = {
+  [REF]?: RefPath;
+  [INC]?: number | Reference;
+  [MUL]?: number | Reference;
+  [MIN]?: number | Reference;
+  [MAX]?: number | Reference;
+};
+
+// Value operators for string fields
+type StringOperators = {
+  [REF]?: RefPath;
+  [APPEND]: string | Reference;
+};
+
+// Operators are only allowed on plain number/string fields, not on literal unions like "light" | "dark"
+type ValueOperators<T> = T extends number
+  ? number extends T
+    ? NumberOperators
+    : never
+  : T extends string
+    ? string extends T
+      ? StringOperators
+      : never
+    : never;
+
 // Terminal update types - for non-object values
 // - Functions can only be replaced using Replace<T> syntax
 // - Objects require Replace<T> syntax to distinguish from update statements
-// - Primitives can use direct assignment
+// - Primitives can use direct assignment, numbers and strings also value operators
+// - Values other than pure functions can be set from a Reference
 // - Mixed unions: each type follows its own rule
 type UpdateTerminal<T> = [T] extends [Function]
   ? Replace<T> // Pure functions must use replacement syntax
   : T extends Function
-    ? Replace<T> | Exclude<T, Function> // Function in union: function needs brackets, rest doesn't
+    ? Replace<T> | Exclude<T, Function> | Reference // Function in union: function needs brackets, rest doesn't
     : T extends object
-      ? Replace<T> | Exclude<T, object> // Object in union: object needs brackets, primitives don't
-      : T; // Pure primitives: direct assignment
+      ? Replace<T> | Exclude<T, object> | Reference // Object in union: object needs brackets, primitives don't
+      : T | ValueOperators<T> | Reference; // Pure primitives: direct assignment or value operators
 
 // Update type for arrays
 // - Allows partial updates by numeric index (positive and negative)
+// - Delete removes the element (later elements shift down)
 // - Supports [ALL] to update all elements
 // - Each update can be a value or function
+// - Structural operators run after index updates, in order: PULL, SPLICE, INSERT, MOVE, PUSH, ADD_TO_SET
+// - With [BY_KEY] the keys are values of that field of the elements instead of indices
 type UpdateArray<T extends readonly any[]> = T extends readonly (infer E)[]
   ? {
-      [index: string]: Update<E> | UpdateFunction<E, T, number>;
-      [ALL]?: Update<E> | UpdateFunction<E, T, number>;
+      [index: string]: UpdateField<E> | Delete | UpdateFunction<E, T, number>;
+      [ALL]?: UpdateField<E> | UpdateFunction<E, T, number>;
+      [BY_KEY]?: KeyFields<E>;
+      [PUSH]?: E[];
+      [INSERT]?: [index: number, ...items: E[]];
+      [SPLICE]?: [start: number, deleteCount?: number, ...items: E[]];
+      [MOVE]?: [from: number, to: number];
+      [ADD_TO_SET]?: E[];
+      [PULL]?: Predicate<E>;
     }
   : never;
 
@@ -96,9 +176,9 @@ type UpdateArray<T extends readonly any[]> = T extends readonly (infer E)[]
 type UpdateRecord<T> =
   T extends Record<string, infer V>
     ? {
-        [key: string]: Update<V> | Delete | UpdateFunction<V, T, string>;
+        [key: string]: UpdateField<V> | Delete | UpdateFunction<V, T, string>;
       } & {
-        [ALL]?: Update<V> | UpdateFunction<V, T, string>;
+        [ALL]?: UpdateField<V> | UpdateFunction<V, T, string>;
       }
     : never;
 
@@ -107,9 +187,9 @@ type UpdateRecord<T> =
 // - Optional properties can be deleted with Delete
 // - [ALL] updates all properties (type-safe intersection)
 type UpdateKnownKeys<T extends object> = {
-  [K in StringKeys<T>]?: Update<T[K]> | (IsOptional<T, K> extends true ? Delete : never) | UpdateFunction<T[K], T, K>;
+  [K in StringKeys<T>]?: UpdateField<T[K]> | (IsOptional<T, K> extends true ? Delete : never) | UpdateFunction<T[K], T, K>;
 } & {
-  [ALL]?: Update<AllValueType<T>> | UpdateFunction<AllValueType<T>, T, keyof T>;
+  [ALL]?: UpdateField<AllValueType<T>> | UpdateFunction<AllValueType<T>, T, keyof T>;
 };
 
 // Update type for objects (arrays and non-arrays)
@@ -117,13 +197,19 @@ type UpdateKnownKeys<T extends object> = {
 // - Routes to UpdateRecord for Record types with string index signatures
 // - Routes to UpdateKnownKeys for regular objects with fixed keys
 // - WHERE predicate applies to the entire object
+// - DEEP_ALL applies its statement to nested objects at any depth, their type is unknown
+// - UPSERT creates missing objects and arrays that nested statements update
+// - RENAME moves values of keys to other keys or paths, not in arrays
 type UpdateObject<T extends object> = (T extends readonly any[]
   ? UpdateArray<T>
   : string extends keyof T
     ? UpdateRecord<T>
     : UpdateKnownKeys<T>) & {
   [WHERE]?: ((value: T, context?: Record<string, any>) => boolean) | Predicate<T>;
+  [DEEP_ALL]?: Update<any>;
   [DEFAULT]?: T;
+  [UPSERT]?: boolean | UpsertFactory;
+  [RENAME]?: T extends readonly any[] ? never : { [K in StringKeys<T>]?: string | readonly string[] };
   [CONTEXT]?: Record<string, any>;
 };
 
@@ -142,11 +228,18 @@ export type Update<T> = [T] extends [never]
       ? NullableParts<T> | UpdateObject<NonNullable<T>> | Replace<NonNullable<T>>
       : UpdateTerminal<T>; // Handles functions, primitives, and mixed unions
 
+// Update of a key or element: objects can be set from a Reference there, the statement for the root can't
+type UpdateField<T> = Update<T> | Reference;
+
 // UpdateResult type for arrays
 type UpdateResultArray<T extends readonly any[]> = T extends readonly (infer E)[]
   ? {
       [index: string]: [E] extends [object] ? UpdateResult<E> : E;
       [META]?: { [index: string]: UpdateResultMeta<E> };
+      // Set when the length changed, so the length entry in META isn't taken for an element's key
+      [ARRAY]?: true;
+      // Keys of the elements changed through BY_KEY, by index
+      [BY_KEY]?: { [index: string]: string };
     }
   : never;
 
@@ -188,6 +281,31 @@ export type UpdateResultMeta<T> = {
   original: T;
 };
 
+// Result of updateImmutable: the new root (shares unchanged branches with the input) and its changes
+export type ImmutableUpdate<T> = {
+  data: T;
+  changes: UpdateResult<T> | undefined;
+};
+
+// HISTORY
+
+export type HistoryState = {
+  undoSize: number;
+  redoSize: number;
+};
+
+export type HistoryOptions = {
+  // Maximum number of undo steps, oldest steps are dropped first
+  limit?: number;
+  // Called whenever the undo or redo stack changes
+  onChange?: (state: HistoryState) => void;
+};
+
+// STORE
+
+// Called with the changes that matched the listener's detector and the store data
+export type StoreListener<T> = (changes: UpdateResult<T>, data: T) => void;
+
 // Change detector function type
 export type ChangeDetectorFn<T> = (key: string, result?: UpdateResult<T>) => boolean;
 
@@ -197,6 +315,8 @@ type ArrayChangeDetector<T extends readonly any[]> = T extends readonly (infer E
       [index: string]: ChangeDetectorFn<T> | ([E] extends [object] ? ChangeDetector<E> : never);
     } & {
       [ALL]?: ChangeDetectorFn<T> | ([E] extends [object] ? ChangeDetector<E> : never);
+      // Keys are the keys BY_KEY updates recorded for the elements
+      [BY_KEY]?: KeyFields<E>;
     }
   : never;
 
@@ -231,9 +351,42 @@ type SelectArray<T extends readonly any[]> = T extends readonly (infer E)[]
       [WHERE]?: ((value: E) => boolean) | Predicate<E>;
       [ALL]?: boolean | Select<E>;
       [DEEP_ALL]?: Select<any>;
+      [BY_KEY]?: KeyFields<E>;
+      [ORDER_BY]?: OrderBy<E>;
+      [LIMIT]?: number;
+      [OFFSET]?: number;
+      [GROUP_BY]?: StringKeys<E> | Path<E>;
+      [AGGREGATE]?: Aggregations<E>;
     }
   : never;
 
+// Sort key for ORDER_BY: a key of the elements, or a spec with a key or path.
+// A spec without key sorts by the elements themselves. Nulls sort last unless nulls is "first".
+type OrderKey<E> =
+  | StringKeys<E>
+  | {
+      key?: StringKeys<E> | Path<E>;
+      desc?: boolean;
+      nulls?: "first" | "last";
+    };
+
+// One sort key, or several applied in order to break ties
+export type OrderBy<E> = OrderKey<E> | OrderKey<E>[];
+
+// Aggregated values: true for the elements themselves, or a key or path of them
+type AggregateOperand<E> = true | StringKeys<E> | Path<E>;
+
+export type Aggregation<E> =
+  | { [COUNT]: AggregateOperand<E> }
+  | { [SUM]: AggregateOperand<E> }
+  | { [AVG]: AggregateOperand<E> }
+  | { [MIN]: AggregateOperand<E> }
+  | { [MAX]: AggregateOperand<E> };
+
+type Aggregations<E> = {
+  [name: string]: Aggregation<E>;
+};
+
 type SelectObject<T extends object> = string extends keyof T
   ? SelectRecord<T> // Has string index signature
   : SelectKnownKeys<T>; // Regular object
@@ -243,6 +396,9 @@ type SelectRecord<T> = {
   [WHERE]?: ((value: T) => boolean) | Predicate<T>;
   [ALL]?: boolean | Select<AllValueType<T>>;
   [DEEP_ALL]?: Select<any>;
+  [AS]?: Projections<T>;
+  [GROUP_BY]?: StringKeys<AllValueType<T>> | Path<AllValueType<T>>;
+  [AGGREGATE]?: Aggregations<AllValueType<T>>;
 };
 
 type SelectKnownKeys<T extends object> = {
@@ -251,9 +407,100 @@ type SelectKnownKeys<T extends object> = {
   [WHERE]?: ((value: T) => boolean) | Predicate<T>;
   [ALL]?: boolean | Select<AllValueType<T>>;
   [DEEP_ALL]?: Select<any>;
+  [AS]?: Projections<T>;
+};
+
+// Paths of keys into T, limited in depth so recursive types terminate
+type PathDepth = [never, 0, 1, 2, 3, 4, 5];
+type Path<T, D extends number = 6> = [D] extends [never]
+  ? never
+  : NonNullable<T> extends readonly (infer E)[]
+    ? readonly [number] | readonly [number, ...Path<E, PathDepth[D]>]
+    : NonNullable<T> extends object
+      ? {
+          [K in StringKeys<NonNullable<T>>]: readonly [K] | readonly [K, ...Path<NonNullable<T>[K], PathDepth[D]>];
+        }[StringKeys<NonNullable<T>>]
+      : never;
+
+// Type of the value at path P in T, undefined if a step may be missing
+type PathValue<T, P> = P extends readonly [infer K, ...infer Rest]
+  ? K extends keyof NonNullable<T>
+    ? PathValue<NonNullable<T>[K], Rest> | (null extends T ? undefined : undefined extends T ? undefined : never)
+    : undefined
+  : T;
+
+// Projected field: a key of the selected object, a path into it, or a function of it
+type Projection<T> = StringKeys<T> | Path<T> | ((value: T) => any);
+
+type Projections<T> = {
+  [key: string]: Projection<T>;
 };
 
-export type SelectResult<T> = DeepPartial<T>;
+type ProjectedValue<T, P> = P extends (value: any) => infer R
+  ? R
+  : P extends string
+    ? PathValue<T, [P]>
+    : PathValue<T, P>;
+
+// Shape of select(data: T, stmt: S)
+type SelectedValue<T, S> = S extends true
+  ? T
+  : S extends object
+    ? SelectedObject<NonNullable<T>, S> | Extract<T, null | undefined>
+    : T;
+
+type SelectedObject<T, S> = S extends { [DEEP_ALL]: any }
+  ? DeepPartial<T>
+  : T extends readonly (infer E)[]
+    ? S extends { [GROUP_BY]: any } | { [AGGREGATE]: any }
+      ? Summary<E, S, SelectedArray<E, S>>
+      : S extends { [BY_KEY]: string }
+        ? Record<string, SelectedArray<E, S>> // Elements addressed by key are selected into a record
+        : SelectedArray<E, S>[]
+    : T extends object
+      ? S extends { [GROUP_BY]: any } | { [AGGREGATE]: any }
+        ? Summary<AllValueType<T>, S, SelectedRecordValue<T, S>>
+        : SelectedFields<T, S> & ProjectedFields<T, S>
+      : T;
+
+type SelectedRecordValue<T, S> = S extends { [ALL]: infer A } ? SelectedValue<AllValueType<T>, A> : AllValueType<T>;
+
+// Result of GROUP_BY and AGGREGATE: aggregations, or buckets of selected elements, or both
+type Summary<E, S, Selected> = S extends { [AGGREGATE]: infer A }
+  ? S extends { [GROUP_BY]: any }
+    ? Record<string, Aggregated<E, A>>
+    : Aggregated<E, A>
+  : Record<string, Selected[]>;
+
+type Aggregated<E, A> = { -readonly [K in keyof A]: AggregatedValue<E, A[K]> };
+
+// COUNT and SUM are always numbers, the others are undefined without values
+type AggregatedValue<E, A> = A extends { [MIN]: infer O }
+  ? NonNullable<OperandValue<E, O>> | undefined
+  : A extends { [MAX]: infer O }
+    ? NonNullable<OperandValue<E, O>> | undefined
+    : A extends { [AVG]: any }
+      ? number | undefined
+      : number;
+
+type OperandValue<E, O> = O extends true ? E : O extends string ? PathValue<E, [O]> : PathValue<E, O>;
+
+// Element type of a selected array: ALL or the union of the index statements
+type SelectedArray<E, S> = S extends { [ALL]: infer A }
+  ? SelectedValue<E, A>
+  : [Exclude<keyof S, symbol>] extends [never]
+    ? E
+    : SelectedValue<E, S[Exclude<keyof S, symbol>]>;
+
+type SelectedFields<T, S> = S extends { [ALL]: infer A }
+  ? { [K in keyof T]?: K extends keyof S ? SelectedValue<T[K], S[K]> : SelectedValue<T[K], A> }
+  : { [K in Extract<keyof S, keyof T> as S[K] extends false ? never : K]?: SelectedValue<T[K], S[K]> };
+
+type ProjectedFields<T, S> = S extends { [AS]: infer P } ? { -readonly [K in keyof P]?: ProjectedValue<T, P[K]> } : {};
+
+// Without a statement type the result is a deep partial of T.
+// With one (as inferred by select()) the result follows the statement, including [AS] projections.
+export type SelectResult<T, S = never> = [S] extends [never] ? DeepPartial<T> : SelectedValue<T, S>;
 
 // PREDICATES
 
@@ -310,3 +557,153 @@ export type Predicate<T> = [T] extends [never]
             | OrPredicate<NonNullable<T>>
           ) // OR
         | NullableParts<T>; // Allow null/undefined for nullable types
+
+export type PatternOptions = {
+  // Number of compiled MATCH patterns kept, the least recently used are dropped first. 0 disables the cache.
+  cacheSize?: number;
+  // Patterns (without their flags) it returns false for are rejected as unsafe. false accepts every valid pattern.
+  isSafe?: ((pattern: string, flags: string) => boolean) | false;
+  // Called when a predicate tests a string against a rejected pattern, the string doesn't match either way
+  onError?: (error: PatternError) => void;
+};
+
+// JSON PATCH
+
+// RFC 6902 operation of the kinds statements can express. fromJSONPatch rejects move, copy and test at runtime.
+export type JSONPatchOperation = { op: "add" | "replace"; path: string; value: any } | { op: "remove"; path: string };
+
+// CHANGE LISTS
+
+// One added, removed or changed value of an UpdateResult. Path segments are keys and array indices.
+export type ChangeEntry = {
+  path: string[];
+  kind: "added" | "removed" | "changed";
+  before?: any;
+  after?: any;
+};
+
+export type RenderOptions = {
+  format?: "text" | "markdown";
+};
+
+// DIFF
+
+export type DiffOptions = {
+  // Matches array elements by identity instead of index: a key of the elements or a function returning it
+  key?: string | ((element: any) => unknown);
+};
+
+// MERGE
+
+// A key changed by both results to different values. Values are undefined where the key is missing,
+// nested changes are shown applied to the original.
+export type MergeConflict = {
+  path: string[];
+  original: any;
+  a: any;
+  b: any;
+};
+
+// Keep the value of one side, replace with [value], delete with [] or leave unresolved with undefined
+export type MergeResolution = "a" | "b" | [any] | Delete | undefined;
+
+export type MergeStrategy = (conflict: MergeConflict) => MergeResolution;
+
+// Combined changes applied to the base, and the conflicts the strategy didn't resolve
+export type MergeResult<T> = {
+  changes: UpdateResult<T> | undefined;
+  conflicts: MergeConflict[];
+};
+
+// TRANSFORM
+
+// Statements transform() applies to arrays are applied to each element
+type TransformElement<T> = NonNullable<T> extends readonly (infer E)[] ? E : NonNullable<T>;
+
+// Reads a key or index. On arrays, indices read elements and other keys are read from every element.
+type AccessTransform<T> = StringKeys<TransformElement<T>> | (string & {}) | number;
+
+// Builds an object: true copies the key, other transforms compute it from the data.
+// WHERE drops values (or array elements) that don't match; with only WHERE the values are kept whole.
+// LOOKUP replaces ids with the values they key in a record of the root data (the path to it) before the
+// rest of the statement applies. Missing ids are dropped from arrays and undefined otherwise, unless DEFAULT replaces them.
+type SelectTransform<T> = {
+  [key: string]: boolean | Transform<any>;
+  [WHERE]?: ((value: TransformElement<T>) => boolean) | Predicate<TransformElement<T>>;
+  [LOOKUP]?: AccessTransform<any> | ChainedTransform;
+  [DEFAULT]?: unknown;
+};
+
+// Chains apply each step to the result of the previous one
+type ChainedTransform = readonly (AccessTransform<any> | SelectTransform<any>)[];
+
+export type Transform<T = any> = AccessTransform<T> | SelectTransform<T> | ChainedTransform;
+
+type Missing<T> = null extends T ? undefined : undefined extends T ? undefined : never;
+
+// Shape of transform(data: T, stmt: S), R is the root data LOOKUP reads from
+type TransformedValue<T, S, R> = S extends readonly any[]
+  ? ChainedValue<T, S, R>
+  : TransformedStep<NonNullable<T>, S, R> | Missing<T>;
+
+type ChainedValue<T, S, R> = S extends readonly [infer H, ...infer Rest]
+  ? ChainedValue<TransformedValue<T, H, R>, Rest, R>
+  : S extends readonly []
+    ? Exclude<T, null> | Missing<T>
+    : any; // Chain of unknown length
+
+type TransformedStep<T, S, R> = S extends { [LOOKUP]: infer P }
+  ? LookedUp<T, S, LookupValue<R, P>, R>
+  : T extends readonly (infer E)[]
+    ? S extends number | `${infer _ extends number}`
+      ? E | undefined
+      : S extends { [WHERE]: any }
+        ? Exclude<TransformedValue<E, S, R>, undefined>[]
+        : TransformedValue<E, S, R>[]
+    : S extends string | number
+      ? AccessedValue<T, S extends number ? `${S}` : S>
+      : SelectTransformed<T, S, R> | (S extends { [WHERE]: any } ? undefined : never);
+
+type AccessedValue<T, K> = K extends keyof T ? T[K] : string extends keyof T ? T[string & keyof T] | undefined : undefined;
+
+// Values of the record at path P of the root
+type LookupValue<R, P> =
+  NonNullable<TransformedValue<R, P, R>> extends infer Record
+    ? Record extends readonly (infer E)[]
+      ? E
+      : Record[keyof Record]
+    : never;
+
+// Joined values, projected by the rest of the statement. DEFAULT replaces missing ids.
+type LookedUp<T, S, V, R> = T extends readonly any[]
+  ? Joined<Fallback<V, S>, S, R>[]
+  : Joined<Fallback<V, S>, S, R> | (S extends { [DEFAULT]: any } ? (S extends { [WHERE]: any } ? undefined : never) : undefined);
+
+type Fallback<V, S> = S extends { [DEFAULT]: infer D } ? V | D : V;
+
+type Joined<V, S, R> = [Exclude<keyof S, symbol>] extends [never]
+  ? V
+  : Exclude<TransformedValue<V, Omit<S, typeof LOOKUP | typeof DEFAULT>, R>, undefined>;
+
+type SelectTransformed<T, S, R> = [Exclude<keyof S, symbol>] extends [never]
+  ? S extends { [WHERE]: any }
+    ? T
+    : {}
+  : { -readonly [K in Exclude<keyof S, symbol> as S[K] extends false ? never : K]: TransformedField<T, K, S[K], R> };
+
+// Nested select transforms read from the key, or build an object from the data when the key is missing
+type TransformedField<T, K, V, R> = V extends true
+  ? AccessedValue<T, K>
+  : V extends readonly any[] | string | number
+    ? TransformedValue<T, V, R>
+    : K extends keyof T
+      ? TransformedValue<NonNullable<T[K]>, V, R> | (null extends T[K] ? BuiltObject<T, V, R> : undefined extends T[K] ? BuiltObject<T, V, R> : never)
+      : BuiltObject<T, V, R>;
+
+type BuiltObject<T, V, R> = {
+  -readonly [K in Exclude<keyof V, symbol> as V[K] extends boolean ? never : K]: TransformedValue<T, V[K], R>;
+};
+
+// Without a statement type the result is any.
+// With one (as inferred by transform()) the result follows the statement through chains, selections and lookups.
+export type TransformResult<T, S = never> = [S] extends [never] ? any : TransformedValue<T, S, T>;
@@ -1,33 +1,193 @@
-import { ALL, WHERE, DEFAULT, CONTEXT, META } from "./symbols.js";
-import type { Update, UpdateResult } from "./types.js";
-import { evalPredicate } from "./predicate.js";
+import { ALL, DEEP_ALL, WHERE, DEFAULT, UPSERT, CONTEXT, META, ARRAY, BY_KEY, PUSH, INSERT, SPLICE, MOVE, ADD_TO_SET, PULL, INC, MUL, MIN, MAX, APPEND, REF, RENAME } from "./symbols.js";
+import type { Update, UpdateResult, ImmutableUpdate, UpsertFactory } from "./types.js";
+import { evalPredicate, compileWhere } from "./predicate.js";
 
 export function update<T extends object>(d: T, u?: Update<T>, c?: UpdateResult<T>): UpdateResult<T> | undefined {
   return updateImpl(d, u, c);
 }
 
-export function updateImpl(data: any, statement?: any, changes?: any, context?: any): any {
+/**
+ * Copy-on-write version of update(). The input is never mutated: objects on changed
+ * paths are shallow-copied and everything else is shared with the input.
+ * Returns the new root (the input itself when nothing changed) and the same UpdateResult update() would.
+ */
+export function updateImmutable<T extends object>(d: T, u?: Update<T>, c?: UpdateResult<T>): ImmutableUpdate<T> {
+  let root = d;
+  const changes = updateImpl(d, u, c, undefined, (copy: T) => (root = copy));
+  return { data: root, changes };
+}
+
+/**
+ * Dry run of update(): returns the UpdateResult update() would, with the same META originals,
+ * and leaves the data untouched. The copies made to compute it are discarded.
+ */
+export function previewUpdate<T extends object>(d: T, u?: Update<T>): UpdateResult<T> | undefined {
+  return updateImpl(d, u, undefined, undefined, () => {});
+}
+
+/**
+ * Prepares an update statement for repeated use. The statement is analyzed once: each of its objects is taken apart
+ * into the operators and keys updateImpl() works with, and its WHERE and PULL predicates are compiled with
+ * compilePredicate(). Statements returned by functions in it are still analyzed on every call.
+ * The returned function gives the same results as update(data, stmt, changes).
+ */
+export function compileUpdate<T extends object>(u: Update<T>): (d: T, c?: UpdateResult<T>) => UpdateResult<T> | undefined {
+  const compiled = compileWhere(u);
+  compiledStatements.add(compiled);
+  return (d, c) => updateImpl(d, compiled, c);
+}
+
+// An update statement taken apart into its operators and the keys it updates
+type UpdatePlan = {
+  where: any;
+  all: any;
+  deepAll: any;
+  vars: any;
+  // The UPSERT setting for the nested statements, undefined when the statement doesn't change it
+  upsert?: Upsert;
+  upsertMode: any;
+  renames?: [string, string[]][];
+  push: any;
+  insert: any;
+  splice: any;
+  move: any;
+  addToSet: any;
+  pull: any;
+  byKey: any;
+  arrayOperators: boolean;
+  rest: Record<string, any>;
+  // The statement DEEP_ALL applies to the values below
+  deepAllStatement?: any;
+};
+
+// Statements of compileUpdate() and their nested statements, their plans are kept
+const compiledStatements = new WeakSet<object>();
+const plans = new WeakMap<object, UpdatePlan>();
+
+function planOf(statement: any): UpdatePlan {
+  let plan = plans.get(statement);
+  if (!plan) {
+    const compiled = compiledStatements.has(statement);
+    plan = analyze(statement, compiled);
+    if (compiled) {
+      plans.set(statement, plan);
+    }
+  }
+  return plan;
+}
+
+// Takes a statement apart. The nested statements of a compiled statement keep their plans too.
+function analyze(statement: any, compiled: boolean): UpdatePlan {
+  const {
+    [WHERE]: where,
+    [ALL]: all,
+    [DEEP_ALL]: deepAll,
+    [DEFAULT]: defaulT,
+    [CONTEXT]: vars,
+    [UPSERT]: upsertMode,
+    [RENAME]: renames,
+    [PUSH]: push,
+    [INSERT]: insert,
+    [SPLICE]: splice,
+    [MOVE]: move,
+    [ADD_TO_SET]: addToSet,
+    [PULL]: pull,
+    [BY_KEY]: byKey,
+    ...rest
+  } = statement;
+  const plan: UpdatePlan = {
+    where,
+    all,
+    deepAll,
+    vars,
+    upsert: upsertMode ? { factory: typeof upsertMode === "function" ? upsertMode : undefined, path: [] } : undefined,
+    upsertMode,
+    renames:
+      renames &&
+      Object.keys(renames).map((from) => [
+        from,
+        Array.isArray(renames[from]) ? renames[from].map(String) : [String(renames[from])],
+      ]),
+    push,
+    insert,
+    splice,
+    move,
+    addToSet,
+    pull,
+    byKey,
+    arrayOperators: !!(push || insert || splice || move || addToSet || pull !== undefined),
+    rest,
+    // A statement of only DEEP_ALL is its own statement for the values below
+    deepAllStatement: deepAll && (Reflect.ownKeys(statement).length === 1 ? statement : { [DEEP_ALL]: deepAll }),
+  };
+
+  if (compiled) {
+    for (const value of [all, deepAll, plan.deepAllStatement, ...Object.values(rest)]) {
+      if (value != null && typeof value === "object" && !Array.isArray(value)) {
+        compiledStatements.add(value);
+      }
+    }
+  }
+  return plan;
+}
+
+// Called once with the shallow copy of a node on its first write, so the parent can link it
+type CopyOnWrite = (copy: any) => void;
+
+// Set below an UPSERT statement: path leads from it to the data being updated
+type Upsert = { factory?: UpsertFactory; path: string[] };
+
+// Called with a value recorded whole that a later update changed in place, and the changes made to it
+type Detach = (value: any, change: any) => void;
+
+// unvisited: objects of the data DEEP_ALL hasn't reached yet, collected before it changes anything. Cycles and shared
+// objects are updated once, objects its statement creates not at all.
+// root: returns the current version of the data passed to update(), REF paths starting with $ read from it
+// moved: the replacement RENAME builds for a nested target, its value is placed without copying
+// detach: reverts the changes on a copy for the originals of the parent levels that share the value
+export function updateImpl(
+  data: any,
+  statement?: any,
+  changes?: any,
+  context?: any,
+  cow?: CopyOnWrite,
+  unvisited?: Set<any>,
+  upsert?: Upsert,
+  root?: () => any,
+  moved?: any[],
+  detach?: Detach,
+): any {
   if (!statement) return undefined;
 
-  const { [WHERE]: where, [ALL]: all, [DEFAULT]: defaulT, [CONTEXT]: vars, ...rest } = statement;
-  const staticUpdate = rest;
+  const plan = planOf(statement);
+  const { where, all, deepAll, vars, renames, push, insert, splice, move, addToSet, pull, byKey, rest } = plan;
+  let staticUpdate = rest;
 
   if (vars) {
     context = context ? { ...context, ...vars } : vars;
   }
 
-  if (where) {
-    // Check if it's a function or a predicate
-    const whereResult = typeof where === 'function' 
-      ? where(data, context)
-      : evalPredicate(data, where);
-    
-    if (!whereResult) {
-      return changes;
+  // UPSERT applies to all nested statements, false turns it off again
+  if (plan.upsertMode !== undefined) {
+    upsert = plan.upsert;
+  }
+
+  if (!testWhere(data, where, context)) {
+    return changes;
+  }
+
+  // Keys are values of the elements' byKey field, they address the first element with that value
+  let keys: Record<string, string> | undefined;
+  if (byKey !== undefined) {
+    if (!Array.isArray(data)) {
+      throw Error("Can't address elements by key in a non-array");
     }
+    ({ statement: staticUpdate, keys } = resolveKeys(data, byKey, rest));
   }
 
   if (all) {
+    // The keys of the plan are shared by every call
+    staticUpdate = { ...staticUpdate };
     for (const key in data) {
       if (staticUpdate[key] === undefined) {
         staticUpdate[key] = all;
@@ -35,14 +195,58 @@ export function updateImpl(data: any, statement?: any, changes?: any, context?:
     }
   }
 
-  function addValueChange(key: string, oldValue: any) {
-    const newValue = data[key];
+  // All writes go through target. In copy-on-write mode it becomes a copy of data on first write.
+  let target = data;
+  function writable() {
+    if (cow && target === data) {
+      target = shallowCopy(data);
+      // DEEP_ALL reaches the copy in place of the original
+      if (unvisited?.has(data)) {
+        unvisited.add(target);
+      }
+      cow(target);
+    }
+    return target;
+  }
+
+  // In copy-on-write mode the copies of nested objects are linked into the top-level target
+  root ??= () => target;
+
+  // References read the data as updated so far, by keys from the data ($), the object being updated (@) or a
+  // CONTEXT variable
+  function readRef(path: string | (string | number)[]) {
+    const [head, ...keys] = typeof path === "string" ? path.split(".") : path;
+    let value = head === "$" ? root!() : head === "@" ? target : context?.[head];
+    for (const key of keys) {
+      value = value == null ? undefined : value[key];
+    }
+    return value;
+  }
+
+  function resolve(operand: any) {
+    return isRef(operand) ? readRef(operand[REF]) : operand;
+  }
+
+  // A value moved within its object (RENAME, shifted array elements) is also the original of the key it left
+  function detachShared(value: any, change: any) {
+    detachOriginals(changes?.[META], value, change);
+    detach?.(value, change);
+  }
+
+  // detached: oldValue is no longer referenced by data, so it is safe to undo its changes in place
+  function addValueChange(key: string, oldValue: any, detached = true) {
+    const newValue = target[key];
 
     if (oldValue != null && typeof oldValue === "object") {
       //we need to undo changes that may have occured before setting it as original
       const oldValueChanges = changes?.[key];
-      if (oldValueChanges) {
-        undoImpl(oldValue, oldValueChanges);
+      if (oldValueChanges && !(changes[META] && key in changes[META])) {
+        if (cow || !detached) {
+          // oldValue is still referenced (earlier version or shifted element), revert a copy instead
+          oldValue = undoCopy(oldValue, oldValueChanges);
+        } else {
+          undoImpl(oldValue, oldValueChanges);
+        }
       }
     }
 
@@ -62,7 +266,25 @@ export function updateImpl(data: any, statement?: any, changes?: any, context?:
     }
   }
 
-  function updateKey(key: string, oldValue: any, newValue: any, replace = false) {
+  // moves: the replacement RENAME builds for a nested target, passed down to the level that places its value
+  function updateKey(key: string, oldValue: any, newValue: any, replace = false, moves = moved) {
+    if (!replace && isValueOperation(newValue)) {
+      if (!testWhere(oldValue, newValue[WHERE], context)) {
+        return;
+      }
+      // REF sets the value the other operators apply to, the key is left as it is when the path has no value
+      let value = oldValue;
+      if (REF in newValue) {
+        value = readRef(newValue[REF]);
+        if (value === undefined) {
+          return;
+        }
+        value = cloneOperand(value);
+      }
+      newValue = applyValueOperators(key, value, newValue, resolve);
+      replace = true;
+    }
+
     if (oldValue === newValue) {
       return;
     }
@@ -70,21 +292,17 @@ export function updateImpl(data: any, statement?: any, changes?: any, context?:
     if (!replace && newValue != null && typeof newValue === "object") {
       if (oldValue == null || typeof oldValue !== "object") {
         //check the where statement before throwing error
-        const where = newValue[WHERE];
-        if (where) {
-          const whereResult = typeof where === 'function'
-            ? where(oldValue, context)
-            : evalPredicate(oldValue, where);
-          
-          if (!whereResult) {
-            return;
-          }
+        if (!testWhere(oldValue, newValue[WHERE], context)) {
+          return;
         }
 
+        // The created value is recorded whole, so undo removes it with everything created inside
         const defaultValue = newValue[DEFAULT];
-        if (defaultValue) {
-          data[key] = structuredClone(defaultValue);
-          updateImpl(data[key], newValue, undefined, context);
+        const nested = upsert && { ...upsert, path: [...upsert.path, key] };
+        if (defaultValue || (nested && oldValue == null)) {
+          const value = defaultValue ? structuredClone(defaultValue) : createValue(newValue, nested!);
+          updateImpl(value, newValue, undefined, context, undefined, undefined, nested, root, moves);
+          writable()[key] = value;
           addValueChange(key, oldValue);
           return;
         }
@@ -92,9 +310,29 @@ export function updateImpl(data: any, statement?: any, changes?: any, context?:
         throw Error(`Can't partially update a non-object: ${key}`);
       }
 
-      const change = updateImpl(oldValue, newValue, changes ? changes[key] : undefined, context);
+      const childCow = cow && ((copy: any) => (writable()[key] = copy));
+      // A value replaced earlier is recorded whole, its nested changes don't need tracking
+      const replaced = changes?.[META] && key in changes[META];
+      const nested = upsert && { ...upsert, path: [...upsert.path, key] };
+      const change = updateImpl(
+        oldValue,
+        newValue,
+        changes && !replaced ? changes[key] : undefined,
+        context,
+        childCow,
+        unvisited,
+        nested,
+        root,
+        moves,
+        detachShared,
+      );
       if (change) {
-        if (changes) {
+        if (replaced) {
+          if (target[key] === oldValue) {
+            detachShared(oldValue, change);
+          }
+          changes[key] = target[key];
+        } else if (changes) {
           changes[key] = change;
         } else {
           changes = { [key]: change };
@@ -104,10 +342,34 @@ export function updateImpl(data: any, statement?: any, changes?: any, context?:
     }
 
     // newValue null or not an object or full object, set directly
-    data[key] = newValue;
+    writable()[key] = newValue;
     addValueChange(key, oldValue);
   }
 
+  // Applies a structural change to the array and records every index that now holds a different element
+  function modifyArray(modify: (array: any[]) => void) {
+    const before = target.slice();
+    modify(writable());
+    const end = Math.max(before.length, target.length);
+    for (let i = 0; i < end; i++) {
+      if (before[i] !== target[i]) {
+        addValueChange(String(i), before[i], false);
+      }
+    }
+  }
+
+  const isArray = Array.isArray(data);
+  if (!isArray && plan.arrayOperators) {
+    throw Error("Can't apply array operators to a non-array");
+  }
+  if (isArray && renames) {
+    throw Error("Can't rename keys of an array");
+  }
+
+  const initialLength = isArray ? data.length : 0;
+  // Array elements deleted with [] are removed after all other keys, by their original index
+  const removals: number[] = [];
+
   // Process each key in the expanded transform
   for (const key in staticUpdate) {
     // Handle numeric indices (including negative) for arrays
@@ -123,20 +385,26 @@ export function updateImpl(data: any, statement?: any, changes?: any, context?:
       }
     }
 
-    let oldValue = data[actualKey];
+    let oldValue = target[actualKey];
     const operand = staticUpdate[key];
-    const staticOperand = typeof operand === "function" ? operand(oldValue, data, actualKey, context) : operand;
+    const staticOperand = typeof operand === "function" ? operand(oldValue, target, actualKey, context) : operand;
 
     if (Array.isArray(staticOperand)) {
       if (staticOperand.length === 0) {
-        delete data[actualKey];
+        if (isArray) {
+          const index = Number(actualKey);
+          if (index >= 0 && index < data.length) {
+            removals.push(index);
+          }
+          continue;
+        }
+        delete writable()[actualKey];
         addValueChange(actualKey, oldValue);
         continue;
       }
 
       if (staticOperand.length === 1) {
-        //structured clone can still fail for functions within operand
-        const newValue = typeof staticOperand[0] === "function" ? staticOperand[0] : structuredClone(staticOperand[0]);
+        const newValue = staticOperand === moved ? staticOperand[0] : cloneOperand(staticOperand[0]);
         updateKey(actualKey, oldValue, newValue, true);
       } else {
         throw new Error("Multiple element arrays not allowed"); //TODO collect warning
@@ -146,14 +414,262 @@ export function updateImpl(data: any, statement?: any, changes?: any, context?:
     }
   }
 
+  // Elements addressed by key, found again by identity once the array operators moved them
+  const keyed = keys && Object.keys(keys).map((index) => [target[index], keys![index]] as const);
+
+  // Renames apply after the other keys, which address values by their old keys. All values are removed before any is
+  // placed, so keys can be swapped.
+  if (renames) {
+    const moves = renames.filter(
+      ([from, to]) =>
+        Object.prototype.hasOwnProperty.call(target, from) && to.length > 0 && !(to.length === 1 && to[0] === from),
+    );
+
+    // Paths are checked before any value is removed, so a failing rename leaves the data as it was
+    const sources = new Set(moves.map(([from]) => from));
+    for (const [from, to] of moves) {
+      let value = sources.has(to[0]) ? undefined : target[to[0]];
+      for (const key of to.slice(1)) {
+        if (value != null && typeof value !== "object") {
+          throw Error(`Can't rename ${from} to a path through a non-object: ${to.join(".")}`);
+        }
+        value = value?.[key];
+      }
+    }
+
+    const placements: [string[], any][] = [];
+    for (const [from, to] of moves) {
+      const value = target[from];
+      delete writable()[from];
+      // The value itself is the original, later changes to it at its new key are reverted on a copy for it
+      addValueChange(from, value, false);
+      placements.push([to, value]);
+    }
+
+    for (const [[head, ...tail], value] of placements) {
+      if (tail.length === 0) {
+        updateKey(head, target[head], value, true);
+        continue;
+      }
+      // Nested targets are set like a replacement at the path, creating missing objects along it
+      const replacement = [value];
+      const path = { [UPSERT]: true, ...tail.reduceRight<any>((stmt, key) => ({ [key]: stmt }), replacement) };
+      const stmt = target[head] == null ? { [DEFAULT]: {}, ...path } : path;
+      updateKey(head, target[head], stmt, false, replacement);
+    }
+  }
+
+  if (isArray) {
+    if (removals.length > 0) {
+      removals.sort((a, b) => b - a);
+      modifyArray((array) => {
+        for (let i = 0; i < removals.length; i++) {
+          if (removals[i] !== removals[i - 1]) {
+            array.splice(removals[i], 1);
+          }
+        }
+      });
+    }
+
+    if (pull !== undefined) {
+      if (target.some((element: any) => testPull(element, pull))) {
+        modifyArray((array) => {
+          const kept = array.filter((element) => !testPull(element, pull));
+          array.splice(0, array.length, ...kept);
+        });
+      }
+    }
+
+    if (splice) {
+      const [start, deleteCount = target.length, ...items] = splice;
+      modifyArray((array) => array.splice(start, deleteCount, ...items.map(cloneOperand)));
+    }
+
+    if (insert) {
+      const [index, ...items] = insert;
+      modifyArray((array) => array.splice(index, 0, ...items.map(cloneOperand)));
+    }
+
+    if (move) {
+      const length = target.length;
+      const [from, to] = move.map((index: number) => (index < 0 ? length + index : index));
+      if (from >= 0 && from < length && to >= 0 && to < length && from !== to) {
+        modifyArray((array) => array.splice(to, 0, ...array.splice(from, 1)));
+      }
+    }
+
+    if (push && push.length > 0) {
+      modifyArray((array) => array.push(...push.map(cloneOperand)));
+    }
+
+    if (addToSet) {
+      const missing: any[] = [];
+      for (const item of addToSet) {
+        if (!target.some((element: any) => isEqual(element, item)) && !missing.some((element) => isEqual(element, item))) {
+          missing.push(item);
+        }
+      }
+      if (missing.length > 0) {
+        modifyArray((array) => array.push(...missing.map(cloneOperand)));
+      }
+    }
+
+    // Length is recorded after the indices, so undo restores elements first and then truncates
+    if (target.length !== initialLength) {
+      addValueChange("length", initialLength);
+      changes[ARRAY] = true;
+    }
+  }
+
+  // Elements changed through a key are recorded with it at their final index, removed elements are dropped
+  if (keyed && changes) {
+    for (const [element, key] of keyed) {
+      const index = target.indexOf(element);
+      if (index >= 0 && index in changes) {
+        changes[BY_KEY] = { ...changes[BY_KEY], [index]: key };
+      }
+    }
+  }
+
+  // DEEP_ALL applies its statement to every nested object that passes its WHERE, then continues into its children
+  if (deepAll) {
+    unvisited = unvisited ?? nestedObjects(target);
+    unvisited.delete(data);
+    for (const key of Object.keys(target)) {
+      const value = target[key];
+      if (!unvisited.has(value)) {
+        continue;
+      }
+      unvisited.delete(value);
+      updateKey(key, value, deepAll);
+      updateKey(key, target[key], plan.deepAllStatement);
+    }
+  }
+
   return changes;
 }
 
+// Objects nested at any depth below value
+function nestedObjects(value: any, objects = new Set<any>()) {
+  for (const key of Object.keys(value)) {
+    const child = value[key];
+    if (child != null && typeof child === "object" && !objects.has(child)) {
+      objects.add(child);
+      nestedObjects(child, objects);
+    }
+  }
+  return objects;
+}
+
+// Replaces the keys of a BY_KEY statement with the indices of the elements they address, keys without an element are dropped
+function resolveKeys(array: any[], field: string, statement: any) {
+  const indices = new Map<string, number>();
+  array.forEach((element, index) => {
+    const key = element != null && typeof element === "object" ? element[field] : undefined;
+    if ((typeof key === "string" || typeof key === "number") && !indices.has(String(key))) {
+      indices.set(String(key), index);
+    }
+  });
+
+  const resolved: any = {};
+  const keys: Record<string, string> = {};
+  for (const key in statement) {
+    const index = indices.get(key);
+    if (index !== undefined) {
+      resolved[index] = statement[key];
+      keys[index] = key;
+    }
+  }
+  return { statement: resolved, keys };
+}
+
+function testWhere(value: any, where: any, context: any): boolean {
+  if (!where) return true;
+  // Check if it's a function or a predicate
+  return typeof where === "function" ? where(value, context) : evalPredicate(value, where);
+}
+
+const arrayOperators = [PUSH, INSERT, SPLICE, MOVE, ADD_TO_SET, PULL];
+
+// Initial value of a missing object UPSERT creates: the factory's, or an array for statements with array operators
+function createValue(statement: any, { factory, path }: Upsert) {
+  const value = factory?.(path);
+  if (value !== undefined) {
+    return structuredClone(value);
+  }
+  return arrayOperators.some((op) => op in statement) ? [] : {};
+}
+
+// PULL predicates are compiled to functions by compileUpdate()
+function testPull(element: any, pull: any): boolean {
+  return typeof pull === "function" ? pull(element) : evalPredicate(element, pull);
+}
+
+// Deep equality of plain data: objects and arrays by their keys, dates by time, everything else by identity
+export function isEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return +a === +b;
+  }
+  if (a == null || b == null || typeof a !== "object" || typeof b !== "object" || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => key in b && isEqual(a[key], b[key]));
+}
+
+const valueOperators = [INC, MUL, MIN, MAX, APPEND];
+
+function isValueOperation(operand: any) {
+  return (
+    operand != null && typeof operand === "object" && !Array.isArray(operand) && [REF, ...valueOperators].some((op) => op in operand)
+  );
+}
+
+function isRef(operand: any) {
+  return operand != null && typeof operand === "object" && !Array.isArray(operand) && REF in operand;
+}
+
+// Computes the new value of a terminal operation. Missing values count as 0 for INC/MUL and "" for APPEND,
+// MIN/MAX set a missing value to their operand. Operands referencing missing values are ignored.
+function applyValueOperators(key: string, value: any, operation: any, resolve: (operand: any) => any) {
+  const [inc, mul, min, max, append] = valueOperators.map((op) => resolve(operation[op]));
+  if ([inc, mul, min, max, append].every((operand) => operand === undefined)) {
+    return value;
+  }
+
+  if (append !== undefined) {
+    if (value != null && typeof value !== "string") {
+      throw Error(`Can't append to a non-string: ${key}`);
+    }
+    return (value ?? "") + append;
+  }
+
+  if (value != null && typeof value !== "number") {
+    throw Error(`Can't apply arithmetic to a non-number: ${key}`);
+  }
+
+  let result = value;
+  if (inc !== undefined) result = (result ?? 0) + inc;
+  if (mul !== undefined) result = (result ?? 0) * mul;
+  if (min !== undefined) result = result == null ? min : Math.min(result, min);
+  if (max !== undefined) result = result == null ? max : Math.max(result, max);
+  return result;
+}
+
+function cloneOperand(value: any) {
+  //structured clone can still fail for functions within operand
+  return typeof value === "function" ? value : structuredClone(value);
+}
+
 export function undo<T extends object>(data: T, result: UpdateResult<T> | undefined) {
   return undoImpl(data, result);
 }
 
-function undoImpl(data: any, result: any) {
+export function undoImpl(data: any, result: any) {
   if (data == null || typeof data !== "object" || result === undefined) {
     return data;
   }
@@ -162,34 +678,214 @@ function undoImpl(data: any, result: any) {
   for (const key in rest) {
     const change = rest[key];
     if (meta && key in meta) {
-      data[key] = meta[key].original;
+      const original = meta[key].original;
+      if (original === undefined && !Array.isArray(data)) {
+        // the key didn't exist
+        delete data[key];
+      } else {
+        data[key] = original;
+      }
     } else {
       undoImpl(data[key], change);
     }
   }
 }
 
-function mergeResults(result: UpdateResult<any>, changes: UpdateResult<any>) {
-  for (const key of Object.keys(changes)) {
-    if (key in result) {
-      const value = result[key];
-      const change = changes[key];
+// Reapplies a result after it was undone
+export function redoImpl(data: any, result: any) {
+  if (data == null || typeof data !== "object" || result === undefined) {
+    return;
+  }
 
-      const meta = result[META]?.[key];
-      if (meta && meta.original === change) {
-        delete result[key];
-        //TODO delete meta
+  const { [META]: meta, ...rest } = result;
+  for (const key in rest) {
+    const change = rest[key];
+    if (meta && key in meta) {
+      if (change === undefined && !Array.isArray(data)) {
+        delete data[key];
+      } else {
+        data[key] = change;
+      }
+    } else {
+      redoImpl(data[key], change);
+    }
+  }
+}
+
+/**
+ * Builds a statement that reverts the changes in result when applied with update().
+ * Unlike undo() it doesn't need the changed object, so it can be serialized and applied on another replica.
+ */
+export function invert<T extends object>(result: UpdateResult<T> | undefined): Update<T> | undefined {
+  return invertImpl(result);
+}
+
+function invertImpl(result: any): any {
+  if (result == null || typeof result !== "object") {
+    return undefined;
+  }
+
+  const { [META]: meta, ...rest } = result;
+  // Arrays that changed length record it, indices past the original length didn't exist
+  const originalLength = originalArrayLength(result);
+
+  let statement: any;
+  for (const key in rest) {
+    let keyStatement;
+    if (meta && key in meta) {
+      if (key === "length" && originalLength !== undefined) {
         continue;
       }
 
-      if (change == null || value === null || typeof change !== "object" || typeof value !== "object") {
-        result[key] = change;
+      const original = meta[key].original;
+      const existed = originalLength === undefined ? original !== undefined : Number(key) < originalLength;
+      if (!existed) {
+        keyStatement = [];
+      } else if (original != null && (typeof original === "object" || typeof original === "function")) {
+        keyStatement = [original];
+      } else {
+        keyStatement = original;
+      }
+    } else {
+      keyStatement = invertImpl(rest[key]);
+      if (keyStatement === undefined) {
         continue;
       }
+    }
+
+    statement = statement ?? {};
+    statement[key] = keyStatement;
+  }
 
-      mergeResults(value, change);
+  return statement;
+}
+
+// Same as undoImpl, but returns a reverted copy and leaves data untouched
+function undoCopy(data: any, result: any): any {
+  if (data == null || typeof data !== "object" || result === undefined) {
+    return data;
+  }
+
+  const copy = shallowCopy(data);
+  const { [META]: meta, ...rest } = result;
+  for (const key in rest) {
+    const change = rest[key];
+    if (meta && key in meta) {
+      const original = meta[key].original;
+      if (original === undefined && !Array.isArray(copy)) {
+        delete copy[key];
+      } else {
+        copy[key] = original;
+      }
+    } else {
+      copy[key] = undoCopy(data[key], change);
+    }
+  }
+  return copy;
+}
+
+// Changes made in place to a value, or to values nested in it, are reverted on a copy for the originals that share them
+function detachOriginals(meta: any, value: any, change: any) {
+  for (const key of Object.keys(meta ?? {})) {
+    const original = meta[key].original;
+    const originalChanges = original != null && typeof original === "object" && changesOf(value, change, original);
+    if (originalChanges) {
+      meta[key] = { original: undoCopy(original, originalChanges) };
+    }
+  }
+}
+
+// The changes made to target, found along the changed keys of value
+function changesOf(value: any, change: any, target: any): any {
+  if (value === target) {
+    return change;
+  }
+  if (value == null || typeof value !== "object" || change == null || typeof change !== "object") {
+    return undefined;
+  }
+  for (const key of Object.keys(change)) {
+    const found = !(change[META] && key in change[META]) && changesOf(value[key], change[key], target);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+// Same as redoImpl, but returns a copy with result applied and leaves data untouched
+export function redoCopy(data: any, result: any): any {
+  if (data == null || typeof data !== "object" || result === undefined) {
+    return data;
+  }
+
+  const copy = shallowCopy(data);
+  const { [META]: meta, ...rest } = result;
+  for (const key in rest) {
+    const change = rest[key];
+    if (meta && key in meta) {
+      if (change === undefined && !Array.isArray(copy)) {
+        delete copy[key];
+      } else {
+        copy[key] = change;
+      }
     } else {
-      result[key] = changes[key];
+      copy[key] = redoCopy(data[key], change);
+    }
+  }
+  return copy;
+}
+
+// Original length of the array a change record belongs to, undefined unless the array changed length.
+// Objects can have a length key of their own, so the entry in META only counts with the ARRAY marker.
+export function originalArrayLength(result: any): number | undefined {
+  return result?.[ARRAY] && result[META] && "length" in result[META] ? result[META].length.original : undefined;
+}
+
+function shallowCopy(value: any) {
+  // slice keeps array holes, Object.create keeps the prototype
+  return Array.isArray(value) ? value.slice() : Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+}
+
+// Merges changes made after result into result, keeping the originals recorded in result
+// parents: the results of the levels above, their originals can share values with this level
+export function mergeResults(result: UpdateResult<any>, changes: UpdateResult<any>, parents: UpdateResult<any>[] = []) {
+  const { [META]: changesMeta, ...rest } = changes;
+  if (changes[ARRAY]) {
+    result[ARRAY] = true;
+  }
+  for (const key of Object.keys(rest)) {
+    const change = rest[key];
+    const replaced = changesMeta && key in changesMeta;
+    const meta = result[META]?.[key];
+
+    if (meta) {
+      if (replaced && meta.original === change) {
+        // changed back to the original
+        delete result[key];
+        delete result[META][key];
+      } else if (replaced) {
+        result[key] = change;
+      } else {
+        // the replaced value was modified in place and result already references it, originals sharing it are reverted
+        for (const level of [result, ...parents]) {
+          detachOriginals(level[META], result[key], change);
+        }
+      }
+      continue;
+    }
+
+    if (key in result && replaced) {
+      // the original in changes still has the earlier nested changes applied
+      const original = undoCopy(changesMeta[key].original, result[key]);
+      result[key] = change;
+      result[META] = { ...result[META], [key]: { original } };
+    } else if (key in result && result[key] != null && typeof result[key] === "object") {
+      mergeResults(result[key], change, [result, ...parents]);
+    } else {
+      result[key] = change;
+      if (replaced) {
+        result[META] = { ...result[META], [key]: changesMeta[key] };
+      }
     }
   }
 }
@@ -0,0 +1,474 @@
+import {
+  ALL,
+  DEEP_ALL,
+  WHERE,
+  DEFAULT,
+  BY_KEY,
+  PUSH,
+  INSERT,
+  SPLICE,
+  MOVE,
+  ADD_TO_SET,
+  PULL,
+  INC,
+  MUL,
+  MIN,
+  MAX,
+  APPEND,
+  REF,
+  RENAME,
+  AS,
+  ORDER_BY,
+  LIMIT,
+  OFFSET,
+  GROUP_BY,
+  AGGREGATE,
+  COUNT,
+  SUM,
+  AVG,
+  SOME,
+  NOT,
+  MATCH,
+} from "./symbols.js";
+import { SerializationError } from "./serialization.js";
+import { toRegExp, PatternError } from "./predicate.js";
+
+/**
+ * Statement validation against runtime data or a sample of it.
+ *
+ * The sample has the shape of the data the statement will be applied to. Keys it doesn't have are
+ * reported as unknown, so optional keys should be present (an undefined value is enough).
+ * Values that are null or undefined in the sample match any statement.
+ * Records with arbitrary keys are described as { [ALL]: valueSample }.
+ *
+ * Problems are returned as SerializationErrors, so their messages and paths match fromJSON() errors.
+ */
+
+const numberOperators = [INC, MUL, MIN, MAX];
+const arrayOperators = [PUSH, INSERT, SPLICE, MOVE, ADD_TO_SET];
+const aggregations = [COUNT, SUM, AVG, MIN, MAX];
+
+type Issues = SerializationError[];
+
+/**
+ * Reports everything in an update statement that would be ignored or throw when applied to data shaped like sample
+ *
+ * @returns All problems found, empty if the statement is valid
+ */
+export function validateUpdate(statement: any, sample: any): SerializationError[] {
+  const issues: Issues = [];
+  checkUpdate(statement, sample, [], issues);
+  return issues;
+}
+
+/**
+ * Reports everything in a select statement that would never match or throw when applied to data shaped like sample
+ *
+ * @returns All problems found, empty if the statement is valid
+ */
+export function validateSelect(statement: any, sample: any): SerializationError[] {
+  const issues: Issues = [];
+  checkSelect(statement, sample, [], issues);
+  return issues;
+}
+
+function checkUpdate(statement: any, sample: any, path: string[], issues: Issues) {
+  if (Array.isArray(statement)) {
+    // [] deletes and [value] replaces
+    if (statement.length > 1) {
+      issues.push(new SerializationError("Multiple element arrays not allowed", path));
+    }
+    return;
+  }
+
+  if (statement == null || typeof statement !== "object") {
+    return;
+  }
+
+  const { [WHERE]: where, [ALL]: all, [DEEP_ALL]: deepAll, [DEFAULT]: defaulT } = statement;
+
+  if (where !== undefined) {
+    checkPredicate(where, sample, [...path, key(WHERE)], issues);
+  }
+
+  if (numberOperators.some((op) => op in statement) || APPEND in statement || REF in statement) {
+    checkValueOperators(statement, sample, path, issues);
+    return;
+  }
+
+  // DEFAULT replaces missing values before the update
+  sample = sample ?? defaulT;
+  if (sample != null && typeof sample !== "object") {
+    issues.push(new SerializationError("Can't partially update a non-object", path));
+    return;
+  }
+
+  checkArrayOperators(statement, sample, path, issues);
+
+  if (RENAME in statement) {
+    checkRename(statement[RENAME], sample, [...path, key(RENAME)], issues);
+  }
+
+  if (all !== undefined) {
+    for (const value of valueSamples(sample)) {
+      checkUpdate(all, value, [...path, key(ALL)], issues);
+    }
+  }
+
+  // DEEP_ALL applies at any depth, its statement can't be checked against the sample
+  if (deepAll !== undefined) {
+    checkUpdate(deepAll, undefined, [...path, key(DEEP_ALL)], issues);
+  }
+
+  const keyed = BY_KEY in statement ? checkByKey(statement[BY_KEY], sample, path, issues) : UNKEYED;
+
+  for (const k of Object.keys(statement)) {
+    if (keyed !== UNKEYED) {
+      if (keyed !== UNKNOWN) {
+        checkUpdate(statement[k], keyed, [...path, k], issues);
+      }
+      continue;
+    }
+
+    if (Array.isArray(sample) && !Number.isInteger(Number(k))) {
+      issues.push(new SerializationError("Invalid array index", [...path, k]));
+      continue;
+    }
+
+    // New keys can be added to records and missing values, but not to known objects
+    const value = keySample(sample, k);
+    if (value === UNKNOWN) {
+      issues.push(new SerializationError("Unknown key", [...path, k]));
+      continue;
+    }
+    checkUpdate(statement[k], value, [...path, k], issues);
+  }
+}
+
+function checkValueOperators(statement: any, sample: any, path: string[], issues: Issues) {
+  // With REF the operators apply to the referenced value, which is only known when the statement is applied
+  if (REF in statement) {
+    checkRef(statement[REF], [...path, key(REF)], issues);
+    sample = undefined;
+  }
+
+  for (const op of numberOperators) {
+    if (!(op in statement)) continue;
+
+    if (sample != null && typeof sample !== "number") {
+      issues.push(new SerializationError("Can't apply arithmetic to a non-number", [...path, key(op)]));
+    } else if (isRef(statement[op])) {
+      checkRef(statement[op][REF], [...path, key(op), key(REF)], issues);
+    } else if (typeof statement[op] !== "number") {
+      issues.push(new SerializationError("Operand must be a number", [...path, key(op)]));
+    }
+  }
+
+  if (APPEND in statement) {
+    if (sample != null && typeof sample !== "string") {
+      issues.push(new SerializationError("Can't append to a non-string", [...path, key(APPEND)]));
+    } else if (isRef(statement[APPEND])) {
+      checkRef(statement[APPEND][REF], [...path, key(APPEND), key(REF)], issues);
+    } else if (typeof statement[APPEND] !== "string") {
+      issues.push(new SerializationError("Operand must be a string", [...path, key(APPEND)]));
+    }
+  }
+}
+
+function isRef(operand: any) {
+  return operand != null && typeof operand === "object" && !Array.isArray(operand) && REF in operand;
+}
+
+// REF paths are dotted strings or arrays of keys, their first key is $, @ or a CONTEXT variable
+function checkRef(refPath: any, path: string[], issues: Issues) {
+  const isPath = Array.isArray(refPath) && refPath.length > 0 && refPath.every((k) => typeof k === "string" || typeof k === "number");
+  if ((typeof refPath !== "string" || refPath === "") && !isPath) {
+    issues.push(new SerializationError("Reference must be a path", path));
+  }
+}
+
+function checkArrayOperators(statement: any, sample: any, path: string[], issues: Issues) {
+  for (const op of arrayOperators) {
+    if (!(op in statement)) continue;
+
+    const operand = statement[op];
+    if (sample != null && !Array.isArray(sample)) {
+      issues.push(new SerializationError("Can't apply array operators to a non-array", [...path, key(op)]));
+    } else if (!Array.isArray(operand)) {
+      issues.push(new SerializationError("Operand must be an array", [...path, key(op)]));
+    } else if (op === MOVE && !(operand.length === 2 && operand.every(Number.isInteger))) {
+      issues.push(new SerializationError("Operand must be [from, to]", [...path, key(op)]));
+    } else if ((op === INSERT || op === SPLICE) && !Number.isInteger(operand[0])) {
+      issues.push(new SerializationError("Operand must start with an index", [...path, key(op)]));
+    }
+  }
+
+  // PULL's operand is a predicate of the elements
+  if (PULL in statement) {
+    if (sample != null && !Array.isArray(sample)) {
+      issues.push(new SerializationError("Can't apply array operators to a non-array", [...path, key(PULL)]));
+    } else {
+      checkPredicate(statement[PULL], sample == null ? undefined : elementSample(sample), [...path, key(PULL)], issues);
+    }
+  }
+}
+
+// RENAME maps keys of the object to new keys or paths below it
+function checkRename(renames: any, sample: any, path: string[], issues: Issues) {
+  if (Array.isArray(sample)) {
+    issues.push(new SerializationError("Can't rename keys of an array", path));
+    return;
+  }
+  if (renames == null || typeof renames !== "object" || Array.isArray(renames)) {
+    issues.push(new SerializationError("Operand must map keys to keys or paths", path));
+    return;
+  }
+
+  for (const from of Object.keys(renames)) {
+    const to = renames[from];
+    const isPath = Array.isArray(to) && to.length > 0 && to.every((k) => typeof k === "string");
+    if (typeof to !== "string" && !isPath) {
+      issues.push(new SerializationError("Operand must map keys to keys or paths", [...path, from]));
+    } else if (keySample(sample, from) === UNKNOWN) {
+      issues.push(new SerializationError("Unknown key", [...path, from]));
+    }
+  }
+}
+
+function checkSelect(statement: any, sample: any, path: string[], issues: Issues) {
+  if (typeof statement === "boolean") {
+    return;
+  }
+
+  if (statement == null || typeof statement !== "object" || Array.isArray(statement)) {
+    issues.push(new SerializationError("Select statement must be a boolean or an object", path));
+    return;
+  }
+
+  const {
+    [WHERE]: where,
+    [ALL]: all,
+    [DEEP_ALL]: deepAll,
+    [AS]: projections,
+    [ORDER_BY]: orderBy,
+    [LIMIT]: limit,
+    [OFFSET]: offset,
+    [GROUP_BY]: groupBy,
+    [AGGREGATE]: aggregates,
+  } = statement;
+  const keys = Object.keys(statement);
+
+  if (where !== undefined) {
+    checkPredicate(where, sample, [...path, key(WHERE)], issues);
+  }
+
+  if (deepAll !== undefined) {
+    // DEEP_ALL matches at any depth, so only its predicate can be checked
+    if (deepAll[WHERE] !== undefined) {
+      checkPredicate(deepAll[WHERE], undefined, [...path, key(DEEP_ALL), key(WHERE)], issues);
+    }
+  }
+
+  if (sample != null && typeof sample !== "object") {
+    if (all !== undefined || keys.length > 0) {
+      issues.push(new SerializationError("Can't select keys of a non-object", path));
+    }
+    return;
+  }
+
+  if (all !== undefined) {
+    for (const value of valueSamples(sample)) {
+      checkSelect(all, value, [...path, key(ALL)], issues);
+    }
+  }
+
+  const keyed = BY_KEY in statement ? checkByKey(statement[BY_KEY], sample, path, issues) : UNKEYED;
+
+  for (const k of keys) {
+    if (keyed !== UNKEYED) {
+      if (keyed !== UNKNOWN) {
+        checkSelect(statement[k], keyed, [...path, k], issues);
+      }
+      continue;
+    }
+
+    if (Array.isArray(sample) && !(Number.isInteger(Number(k)) && Number(k) >= 0)) {
+      issues.push(new SerializationError("Invalid array index", [...path, k]));
+      continue;
+    }
+
+    const value = keySample(sample, k);
+    if (value === UNKNOWN) {
+      issues.push(new SerializationError("Unknown key", [...path, k]));
+      continue;
+    }
+    checkSelect(statement[k], value, [...path, k], issues);
+  }
+
+  if (projections !== undefined) {
+    for (const name of Object.keys(projections)) {
+      if (typeof projections[name] !== "function") {
+        checkPath(projections[name], sample, [...path, key(AS), name], issues);
+      }
+    }
+  }
+
+  const element = Array.isArray(sample) ? elementSample(sample) : sample?.[ALL];
+
+  if (orderBy !== undefined || limit !== undefined || offset !== undefined) {
+    if (sample != null && !Array.isArray(sample)) {
+      issues.push(new SerializationError("Can't sort or page a non-array", path));
+    }
+    if (Array.isArray(orderBy)) {
+      orderBy.forEach((order, i) => checkOrderKey(order, element, [...path, key(ORDER_BY), String(i)], issues));
+    } else if (orderBy !== undefined) {
+      checkOrderKey(orderBy, element, [...path, key(ORDER_BY)], issues);
+    }
+    if (limit !== undefined && !(Number.isInteger(limit) && limit >= 0)) {
+      issues.push(new SerializationError("Operand must be a non-negative integer", [...path, key(LIMIT)]));
+    }
+    if (offset !== undefined && !(Number.isInteger(offset) && offset >= 0)) {
+      issues.push(new SerializationError("Operand must be a non-negative integer", [...path, key(OFFSET)]));
+    }
+  }
+
+  if (groupBy !== undefined) {
+    checkPath(groupBy, element, [...path, key(GROUP_BY)], issues);
+  }
+
+  if (aggregates !== undefined) {
+    for (const name of Object.keys(aggregates)) {
+      const [op, ...others] = aggregations.filter((op) => op in aggregates[name]);
+      if (op === undefined || others.length > 0) {
+        issues.push(new SerializationError("Aggregation must have one operator", [...path, key(AGGREGATE), name]));
+      } else if (aggregates[name][op] !== true) {
+        checkPath(aggregates[name][op], element, [...path, key(AGGREGATE), name, key(op)], issues);
+      }
+    }
+  }
+}
+
+function checkPredicate(predicate: any, sample: any, path: string[], issues: Issues) {
+  if (predicate == null || typeof predicate !== "object") {
+    return;
+  }
+
+  // Arrays are OR of predicates
+  if (Array.isArray(predicate)) {
+    predicate.forEach((p, i) => checkPredicate(p, sample, [...path, String(i)], issues));
+    return;
+  }
+
+  if (MATCH in predicate) {
+    try {
+      toRegExp(predicate[MATCH]);
+    } catch (error) {
+      const kind = (error as PatternError).reason === "unsafe" ? "Unsafe" : "Invalid";
+      issues.push(new SerializationError(`${kind} regex: ${predicate[MATCH]}`, [...path, key(MATCH)]));
+    }
+  }
+
+  if (NOT in predicate) {
+    checkPredicate(predicate[NOT], sample, [...path, key(NOT)], issues);
+  }
+
+  for (const op of [ALL, SOME]) {
+    if (op in predicate) {
+      for (const value of valueSamples(sample)) {
+        checkPredicate(predicate[op], value, [...path, key(op)], issues);
+      }
+    }
+  }
+
+  for (const k of Object.keys(predicate)) {
+    const value = sample != null && typeof sample !== "object" ? UNKNOWN : keySample(sample, k);
+    if (value === UNKNOWN) {
+      issues.push(new SerializationError("Unknown key", [...path, k]));
+      continue;
+    }
+    checkPredicate(predicate[k], value, [...path, k], issues);
+  }
+}
+
+// Checks the BY_KEY field of a statement. Returns the sample of the elements its keys address, UNKNOWN if they can't be checked.
+function checkByKey(field: any, sample: any, path: string[], issues: Issues) {
+  if (sample != null && !Array.isArray(sample)) {
+    issues.push(new SerializationError("Can't address elements by key in a non-array", [...path, key(BY_KEY)]));
+    return UNKNOWN;
+  }
+
+  const element = sample == null ? undefined : elementSample(sample);
+  if (typeof field !== "string") {
+    issues.push(new SerializationError("Operand must be a key", [...path, key(BY_KEY)]));
+  } else {
+    checkPath(field, element, [...path, key(BY_KEY)], issues);
+  }
+  return element;
+}
+
+function checkOrderKey(order: any, element: any, path: string[], issues: Issues) {
+  checkPath(order != null && typeof order === "object" ? order.key : order, element, path, issues);
+}
+
+// Checks a key or path used by AS, ORDER_BY, GROUP_BY and AGGREGATE
+function checkPath(keyOrPath: any, sample: any, path: string[], issues: Issues) {
+  if (keyOrPath === undefined) return;
+
+  let value = sample;
+  for (const k of Array.isArray(keyOrPath) ? keyOrPath : [keyOrPath]) {
+    if (typeof k !== "string" && typeof k !== "number") {
+      issues.push(new SerializationError("Path must be a key or an array of keys", path));
+      return;
+    }
+
+    value = value != null && typeof value !== "object" ? UNKNOWN : keySample(value, String(k));
+    if (value === UNKNOWN) {
+      issues.push(new SerializationError(`Unknown key: ${k}`, path));
+      return;
+    }
+  }
+}
+
+const UNKNOWN = Symbol();
+// Statements without BY_KEY, their keys are indices on arrays
+const UNKEYED = Symbol();
+
+// Sample of the value at key, UNKNOWN if sample is an object without it
+function keySample(sample: any, key: string) {
+  if (sample == null) {
+    return undefined;
+  }
+  if (Array.isArray(sample)) {
+    return key === "length" ? sample.length : Number.isInteger(Number(key)) ? elementSample(sample) : UNKNOWN;
+  }
+  if (ALL in sample) {
+    return sample[ALL];
+  }
+  return key in sample ? sample[key] : UNKNOWN;
+}
+
+// Samples of the values ALL applies to
+function valueSamples(sample: any): any[] {
+  if (sample == null || typeof sample !== "object") {
+    return [undefined];
+  }
+  if (Array.isArray(sample)) {
+    return [elementSample(sample)];
+  }
+  if (ALL in sample) {
+    return [sample[ALL]];
+  }
+  return Object.values(sample);
+}
+
+// Array elements are sampled together: objects contribute all their keys
+function elementSample(array: any[]) {
+  if (array.length > 0 && array.every((e) => e != null && typeof e === "object" && !Array.isArray(e))) {
+    return Object.assign({}, ...array);
+  }
+  return array[0];
+}
+
+function key(symbol: symbol) {
+  return symbol.description!;
+}
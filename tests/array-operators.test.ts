@@ -0,0 +1,331 @@
+import { describe, it, expect } from "vitest";
+import {
+  update,
+  updateImmutable,
+  undo,
+  transaction,
+  createStore,
+  toJSON,
+  fromJSON,
+  hasChanges,
+  anyChange,
+  META,
+  ARRAY,
+  ALL,
+  WHERE,
+  DEFAULT,
+  PUSH,
+  INSERT,
+  SPLICE,
+  MOVE,
+} from "../src/index.js";
+
+describe("array operators", () => {
+  describe("PUSH", () => {
+    it("should append elements", () => {
+      const data = { tags: ["a", "b"] };
+
+      const changes = update(data, { tags: { [PUSH]: ["c", "d"] } });
+
+      expect(data.tags).toEqual(["a", "b", "c", "d"]);
+      expect(changes).toEqual({
+        tags: {
+          "2": "c",
+          "3": "d",
+          length: 4,
+          [ARRAY]: true,
+          [META]: {
+            "2": { original: undefined },
+            "3": { original: undefined },
+            length: { original: 2 },
+          },
+        },
+      });
+    });
+
+    it("should clone pushed objects", () => {
+      const item = { id: 1 };
+      const data = { items: [] as { id: number }[] };
+
+      update(data, { items: { [PUSH]: [item] } });
+
+      expect(data.items[0]).toEqual(item);
+      expect(data.items[0]).not.toBe(item);
+    });
+
+    it("should work with DEFAULT on a missing array", () => {
+      const data: { items?: number[] | null } = { items: null };
+
+      update(data, { items: { [DEFAULT]: [], [PUSH]: [1] } });
+
+      expect(data.items).toEqual([1]);
+    });
+  });
+
+  describe("INSERT", () => {
+    it("should insert elements at an index", () => {
+      const data = { items: ["a", "d"] };
+
+      const changes = update(data, { items: { [INSERT]: [1, "b", "c"] } });
+
+      expect(data.items).toEqual(["a", "b", "c", "d"]);
+      expect(changes?.items?.[META]).toEqual({
+        "1": { original: "d" },
+        "2": { original: undefined },
+        "3": { original: undefined },
+        length: { original: 2 },
+      });
+    });
+
+    it("should support negative indices", () => {
+      const data = { items: [1, 2, 4] };
+
+      update(data, { items: { [INSERT]: [-1, 3] } });
+
+      expect(data.items).toEqual([1, 2, 3, 4]);
+    });
+  });
+
+  describe("SPLICE", () => {
+    it("should remove and insert like Array.splice", () => {
+      const data = { items: [1, 2, 3, 4, 5] };
+
+      update(data, { items: { [SPLICE]: [1, 2, 20, 30, 40] } });
+
+      expect(data.items).toEqual([1, 20, 30, 40, 4, 5]);
+    });
+
+    it("should remove the rest of the array without deleteCount", () => {
+      const data = { items: [1, 2, 3, 4] };
+
+      const changes = update(data, { items: { [SPLICE]: [2] } });
+
+      expect(data.items).toEqual([1, 2]);
+      expect(changes?.items?.[META]).toEqual({
+        "2": { original: 3 },
+        "3": { original: 4 },
+        length: { original: 4 },
+      });
+    });
+  });
+
+  describe("MOVE", () => {
+    it("should move an element forward", () => {
+      const data = { items: ["a", "b", "c", "d"] };
+
+      const changes = update(data, { items: { [MOVE]: [0, 2] } });
+
+      expect(data.items).toEqual(["b", "c", "a", "d"]);
+      expect(changes).toEqual({
+        items: {
+          "0": "b",
+          "1": "c",
+          "2": "a",
+          [META]: {
+            "0": { original: "a" },
+            "1": { original: "b" },
+            "2": { original: "c" },
+          },
+        },
+      });
+    });
+
+    it("should move an element backward with negative indices", () => {
+      const data = { items: ["a", "b", "c", "d"] };
+
+      update(data, { items: { [MOVE]: [-1, 0] } });
+
+      expect(data.items).toEqual(["d", "a", "b", "c"]);
+    });
+
+    it("should ignore out of range indices", () => {
+      const data = { items: ["a", "b"] };
+
+      const changes = update(data, { items: { [MOVE]: [0, 5] } });
+
+      expect(data.items).toEqual(["a", "b"]);
+      expect(changes).toBeUndefined();
+    });
+  });
+
+  describe("delete with []", () => {
+    it("should remove array elements without leaving holes", () => {
+      const data = { items: ["a", "b", "c"] };
+
+      const changes = update(data, { items: { "1": [] } });
+
+      expect(data.items).toEqual(["a", "c"]);
+      expect(data.items.length).toBe(2);
+      expect(changes).toEqual({
+        items: {
+          "1": "c",
+          "2": undefined,
+          length: 2,
+          [ARRAY]: true,
+          [META]: {
+            "1": { original: "b" },
+            "2": { original: "c" },
+            length: { original: 3 },
+          },
+        },
+      });
+    });
+
+    it("should resolve multiple deletions by original index", () => {
+      const data = { items: ["a", "b", "c", "d", "e"] };
+
+      update(data, { items: { "0": [], "2": [], "-1": [] } });
+
+      expect(data.items).toEqual(["b", "d"]);
+    });
+
+    it("should filter with ALL and a function", () => {
+      const data = { values: [1, -2, 3, -4, 5] };
+
+      update(data, { values: { [ALL]: (v: number) => (v < 0 ? [] : v) } as any });
+
+      expect(data.values).toEqual([1, 3, 5]);
+    });
+
+    it("should delete elements matching WHERE", () => {
+      const data = {
+        users: [
+          { name: "A", active: true },
+          { name: "B", active: false },
+          { name: "C", active: false },
+        ],
+      };
+
+      update(data, {
+        users: { [ALL]: (u) => (u.active ? {} : []) },
+      });
+
+      expect(data.users).toEqual([{ name: "A", active: true }]);
+    });
+  });
+
+  it("should apply index updates before structural operators", () => {
+    const data = { items: [1, 2, 3] };
+
+    update(data, {
+      items: {
+        "0": 10,
+        "1": [],
+        [SPLICE]: [0, 1],
+        [INSERT]: [0, 0],
+        [MOVE]: [0, 1],
+        [PUSH]: [99],
+      },
+    });
+
+    // [10, 3] -> [3] -> [0, 3] -> [3, 0] -> [3, 0, 99]
+    expect(data.items).toEqual([3, 0, 99]);
+  });
+
+  it("should record length when setting an index past the end", () => {
+    const data = { items: [1] };
+
+    const changes = update(data, { items: { "1": 2 } });
+
+    expect(changes?.items?.length).toBe(2);
+    expect(changes?.items?.[META]?.length).toEqual({ original: 1 });
+  });
+
+  it("should throw for array operators on non-arrays", () => {
+    const data = { user: { name: "A" } };
+
+    expect(() => update(data, { user: { [PUSH]: ["x"] } } as any)).toThrow("Can't apply array operators to a non-array");
+  });
+
+  describe("undo", () => {
+    it.each([
+      ["PUSH", { [PUSH]: [{ id: 4 }] }],
+      ["INSERT", { [INSERT]: [1, { id: 9 }] }],
+      ["SPLICE", { [SPLICE]: [0, 2, { id: 7 }] }],
+      ["MOVE", { [MOVE]: [2, 0] }],
+      ["delete", { "1": [] }],
+    ])("should restore the exact previous array after %s", (_, stmt) => {
+      const data = { items: [{ id: 1 }, { id: 2 }, { id: 3 }] };
+      const [a, b, c] = data.items;
+
+      const changes = update(data, { items: stmt as any });
+      undo(data, changes);
+
+      expect(data.items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(data.items.length).toBe(3);
+      expect(data.items[0]).toBe(a);
+      expect(data.items[1]).toBe(b);
+      expect(data.items[2]).toBe(c);
+    });
+
+    it("should restore elements modified earlier in a transaction", () => {
+      const data = { items: [{ id: 1, name: "a" }, { id: 2, name: "b" }] };
+
+      const tx = transaction(data);
+      tx.update({ items: { "0": { name: "changed" } } });
+      tx.update({ items: { [INSERT]: [0, { id: 0, name: "new" }] } });
+
+      expect(data.items.map((i) => i.name)).toEqual(["new", "changed", "b"]);
+
+      tx.revert();
+      expect(data.items).toEqual([{ id: 1, name: "a" }, { id: 2, name: "b" }]);
+    });
+  });
+
+  it("should work with updateImmutable", () => {
+    const data = Object.freeze({ items: Object.freeze([1, 2, 3]) });
+
+    const { data: next, changes } = updateImmutable(data, {
+      items: { "0": [], [PUSH]: [4] },
+    });
+
+    expect(next.items).toEqual([2, 3, 4]);
+    expect(data.items).toEqual([1, 2, 3]);
+    expect(changes?.items?.[META]?.["0"]).toEqual({ original: 1 });
+  });
+
+  it("should not break ALL change detectors", () => {
+    const data = { items: [{ name: "a" }] };
+
+    const changes = update(data, { items: { [PUSH]: [{ name: "b" }] } });
+
+    expect(hasChanges(changes, { items: { [ALL]: { name: anyChange } } })).toBe(true);
+  });
+
+  it("should mark only arrays that changed length", () => {
+    const data = { items: [1, 2], box: { length: 1, width: 2 } };
+
+    const changes = update(data, { items: { "0": 5, [PUSH]: [3] }, box: { length: 2, width: 3 } });
+    expect(changes?.items?.[ARRAY]).toBe(true);
+    expect(changes?.box).toEqual({ length: 2, width: 3, [META]: { length: { original: 1 }, width: { original: 2 } } });
+
+    const sameLength = update(data, { items: { "0": 6 } });
+    expect(sameLength?.items?.[ARRAY]).toBeUndefined();
+  });
+
+  it("should keep the marker when batched changes are merged", () => {
+    const store = createStore({ items: [1] });
+    let changes: any;
+    store.subscribe({ items: anyChange }, (c) => (changes = c));
+
+    store.batch(() => {
+      store.update({ items: { "0": 2 } });
+      store.update({ items: { [PUSH]: [3] } });
+    });
+
+    expect(changes.items[ARRAY]).toBe(true);
+    undo(store.data, changes);
+    expect(store.data.items).toEqual([1]);
+  });
+
+  it("should serialize array operators", () => {
+    const stmt = { items: { [PUSH]: [1], [INSERT]: [0, 2], [SPLICE]: [1, 1], [MOVE]: [0, 1] } };
+
+    const json = toJSON(stmt);
+
+    expect(json).toEqual({
+      items: { "@push": [1], "@insert": [0, 2], "@splice": [1, 1], "@move": [0, 1] },
+    });
+    expect(fromJSON(json)).toEqual(stmt);
+  });
+});
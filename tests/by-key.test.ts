@@ -0,0 +1,286 @@
+import { describe, it, expect } from "vitest";
+import {
+  update,
+  updateImmutable,
+  select,
+  hasChanges,
+  anyChange,
+  validateUpdate,
+  validateSelect,
+  toJSON,
+  fromJSON,
+  BY_KEY,
+  ALL,
+  WHERE,
+  META,
+  INC,
+  GT,
+  PUSH,
+  INSERT,
+  COUNT,
+  AGGREGATE,
+} from "../src/index.js";
+
+describe("BY_KEY", () => {
+  describe("in updates", () => {
+    it("should update elements by key", () => {
+      const data = {
+        lines: [
+          { sku: "sku-1", qty: 1, price: 10 },
+          { sku: "sku-42", qty: 2, price: 5 },
+          { sku: "sku-7", qty: 1, price: 20 },
+        ],
+      };
+
+      update(data, { lines: { [BY_KEY]: "sku", "sku-42": { qty: 3 }, "sku-7": { price: { [INC]: 1 } } } });
+
+      expect(data.lines.map((line) => [line.qty, line.price])).toEqual([
+        [1, 10],
+        [3, 5],
+        [1, 21],
+      ]);
+    });
+
+    it("should record the resolved index and the key", () => {
+      const data = {
+        lines: [
+          { sku: "sku-1", qty: 1 },
+          { sku: "sku-42", qty: 2 },
+        ],
+      };
+
+      const changes = update(data, { lines: { [BY_KEY]: "sku", "sku-42": { qty: 3 } } });
+
+      expect(changes).toEqual({
+        lines: { "1": { qty: 3, [META]: { qty: { original: 2 } } }, [BY_KEY]: { "1": "sku-42" } },
+      });
+    });
+
+    it("should find elements after they moved", () => {
+      const data = {
+        lines: [
+          { sku: "sku-1", qty: 1 },
+          { sku: "sku-42", qty: 2 },
+          { sku: "sku-7", qty: 1 },
+        ],
+      };
+      data.lines.reverse();
+
+      update(data, { lines: { [BY_KEY]: "sku", "sku-1": { qty: 5 } } });
+
+      expect(data.lines[2]).toEqual({ sku: "sku-1", qty: 5 });
+    });
+
+    it("should ignore keys without an element", () => {
+      const data = { lines: [{ sku: "sku-1", qty: 1 }] };
+
+      expect(update(data, { lines: { [BY_KEY]: "sku", "sku-99": { qty: 3 } } })).toBeUndefined();
+      expect(data).toEqual({ lines: [{ sku: "sku-1", qty: 1 }] });
+    });
+
+    it("should replace and delete elements by key", () => {
+      const data = {
+        lines: [
+          { sku: "sku-1", qty: 1, price: 10 },
+          { sku: "sku-42", qty: 2, price: 5 },
+          { sku: "sku-7", qty: 1, price: 20 },
+        ],
+      };
+
+      const changes = update(data, {
+        lines: { [BY_KEY]: "sku", "sku-1": [{ sku: "sku-2", qty: 1, price: 12 }], "sku-42": [] },
+      });
+
+      expect(data.lines.map((line) => line.sku)).toEqual(["sku-2", "sku-7"]);
+      expect(changes?.lines?.[BY_KEY]).toEqual({ "0": "sku-1" });
+    });
+
+    it("should record keys at the indices the array operators move elements to", () => {
+      const data: { l: { id: string; v?: number }[] } = { l: [{ id: "a", v: 0 }, { id: "b" }] };
+
+      const changes = update(data, { l: { [BY_KEY]: "id", a: { v: 1 }, [INSERT]: [0, { id: "z" }] } });
+
+      expect(changes?.l?.[BY_KEY]).toEqual({ "1": "a" });
+      expect(hasChanges(changes, { l: { [BY_KEY]: "id", a: { v: anyChange } } })).toBe(true);
+      expect(hasChanges(changes, { l: { [BY_KEY]: "id", z: { v: anyChange } } })).toBe(false);
+    });
+
+    it("should match numeric keys", () => {
+      const data = [
+        { id: 10, done: false },
+        { id: 20, done: false },
+      ];
+
+      update(data, { [BY_KEY]: "id", "20": { done: true } });
+
+      expect(data[1].done).toBe(true);
+    });
+
+    it("should address the first element with a key", () => {
+      const data = [
+        { id: "a", n: 1 },
+        { id: "a", n: 2 },
+      ];
+
+      update(data, { [BY_KEY]: "id", a: { n: 0 } });
+
+      expect(data).toEqual([
+        { id: "a", n: 0 },
+        { id: "a", n: 2 },
+      ]);
+    });
+
+    it("should combine with WHERE, ALL and array operators", () => {
+      const data = {
+        lines: [
+          { sku: "sku-1", qty: 1, price: 10 },
+          { sku: "sku-42", qty: 2, price: 5 },
+          { sku: "sku-7", qty: 1, price: 20 },
+        ],
+      };
+
+      update(data, {
+        lines: {
+          [BY_KEY]: "sku",
+          [ALL]: { [WHERE]: { price: { [GT]: 8 } }, qty: { [INC]: 1 } },
+          "sku-42": { qty: 0 },
+          [PUSH]: [{ sku: "sku-9", qty: 1, price: 1 }],
+        },
+      });
+
+      expect(data.lines.map((line) => line.qty)).toEqual([2, 0, 2, 1]);
+    });
+
+    it("should copy changed elements in updateImmutable", () => {
+      const data = {
+        lines: [
+          { sku: "sku-1", qty: 1 },
+          { sku: "sku-42", qty: 2 },
+        ],
+      };
+
+      const { data: next } = updateImmutable(data, { lines: { [BY_KEY]: "sku", "sku-42": { qty: 3 } } });
+
+      expect(data).toEqual({
+        lines: [
+          { sku: "sku-1", qty: 1 },
+          { sku: "sku-42", qty: 2 },
+        ],
+      });
+      expect(next.lines[1].qty).toBe(3);
+      expect(next.lines[0]).toBe(data.lines[0]);
+    });
+
+    it("should throw on non-arrays", () => {
+      expect(() => update({ a: { b: 1 } }, { a: { [BY_KEY]: "b" } as any })).toThrow(
+        "Can't address elements by key in a non-array",
+      );
+    });
+  });
+
+  describe("in change detection", () => {
+    it("should detect changes of elements by the recorded key", () => {
+      const data = {
+        lines: [
+          { sku: "sku-1", qty: 1, price: 10 },
+          { sku: "sku-42", qty: 2, price: 5 },
+        ],
+      };
+
+      const changes = update(data, { lines: { [BY_KEY]: "sku", "sku-42": { qty: 3 } } });
+
+      expect(hasChanges(changes, { lines: { [BY_KEY]: "sku", "sku-42": { qty: anyChange } } })).toBe(true);
+      expect(hasChanges(changes, { lines: { [BY_KEY]: "sku", "sku-42": { price: anyChange } } })).toBe(false);
+      expect(hasChanges(changes, { lines: { [BY_KEY]: "sku", "sku-1": anyChange } })).toBe(false);
+      expect(hasChanges(changes, { lines: { "1": anyChange } })).toBe(true);
+    });
+
+    it("should not find keys for changes made by index", () => {
+      const data = {
+        lines: [
+          { sku: "sku-1", qty: 1 },
+          { sku: "sku-42", qty: 2 },
+        ],
+      };
+
+      const changes = update(data, { lines: { "1": { qty: 3 } } });
+
+      expect(hasChanges(changes, { lines: { [BY_KEY]: "sku", "sku-42": anyChange } })).toBe(false);
+    });
+  });
+
+  describe("in selects", () => {
+    it("should select elements by key into a record", () => {
+      const lines = [
+        { sku: "sku-1", qty: 1, price: 10 },
+        { sku: "sku-42", qty: 2, price: 5 },
+        { sku: "sku-7", qty: 1, price: 20 },
+      ];
+
+      expect(select(lines, { [BY_KEY]: "sku", "sku-42": { qty: true }, "sku-7": true, "sku-99": true })).toEqual({
+        "sku-42": { qty: 2 },
+        "sku-7": { sku: "sku-7", qty: 1, price: 20 },
+      });
+    });
+
+    it("should key every element with ALL or without other keys", () => {
+      const lines = [
+        { sku: "sku-1", qty: 1, price: 10 },
+        { sku: "sku-42", qty: 2, price: 5 },
+        { sku: "sku-7", qty: 1, price: 20 },
+      ];
+
+      expect(select(lines, { [BY_KEY]: "sku", [ALL]: { [WHERE]: { price: { [GT]: 8 } }, qty: true } })).toEqual({
+        "sku-1": { qty: 1 },
+        "sku-7": { qty: 1 },
+      });
+      expect(Object.keys(select(lines, { [BY_KEY]: "sku" })!)).toEqual(["sku-1", "sku-42", "sku-7"]);
+    });
+
+    it("should apply WHERE to the array and aggregate the keyed elements", () => {
+      const lines = [
+        { sku: "sku-1", qty: 1 },
+        { sku: "sku-42", qty: 2 },
+        { sku: "sku-7", qty: 1 },
+      ];
+
+      expect(select(lines, { [BY_KEY]: "sku", [WHERE]: (lines: any) => lines.length > 5 })).toBeUndefined();
+      expect(select({ lines }, { lines: { [BY_KEY]: "sku", [AGGREGATE]: { lines: { [COUNT]: true } } } })).toEqual({
+        lines: { lines: 3 },
+      });
+    });
+
+    it("should not find inherited keys", () => {
+      expect(select([{ sku: "sku-1", qty: 1 }], { [BY_KEY]: "sku", constructor: { qty: true } })).toBeUndefined();
+    });
+  });
+
+  describe("in validation", () => {
+    it("should check keys against the elements", () => {
+      const data = { lines: [{ sku: "sku-42", qty: 2 }] };
+      const stmt = { lines: { [BY_KEY]: "sku", "sku-42": { qty: 3, color: "red" } } };
+
+      expect(validateUpdate(stmt, data).map((error) => error.message)).toEqual(["Unknown key at path: lines.sku-42.color"]);
+      expect(validateSelect({ lines: { [BY_KEY]: "sku", "sku-42": { qty: true } } }, data)).toEqual([]);
+    });
+
+    it("should report unknown fields and non-arrays", () => {
+      const data = { lines: [{ sku: "sku-1", qty: 1 }] };
+
+      expect(validateUpdate({ lines: { [BY_KEY]: "id", a: { qty: 1 } } }, data).map((error) => error.message)).toEqual([
+        "Unknown key: id at path: lines.@byKey",
+      ]);
+      expect(validateSelect({ [BY_KEY]: "sku", a: true }, data).map((error) => error.message)).toEqual([
+        "Can't address elements by key in a non-array at path: @byKey",
+      ]);
+    });
+  });
+
+  it("should round-trip the keys of changes through JSON", () => {
+    const data = { lines: [{ sku: "sku-1", qty: 1 }] };
+
+    const changes = update(data, { lines: { [BY_KEY]: "sku", "sku-1": { qty: 3 } } });
+
+    expect(fromJSON(toJSON(changes))).toEqual(changes);
+  });
+});
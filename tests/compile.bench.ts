@@ -0,0 +1,65 @@
+import { bench, describe } from "vitest";
+import {
+  compilePredicate,
+  compileSelect,
+  compileUpdate,
+  evalPredicate,
+  select,
+  update,
+  ALL,
+  WHERE,
+  GT,
+  LT,
+  MATCH,
+  SOME,
+  INC,
+} from "../src/index.js";
+
+type Item = { id: number; name: string; price: number; tags: string[] };
+
+const items: Item[] = Array.from({ length: 1000 }, (_, i) => ({
+  id: i,
+  name: `item-${i}`,
+  price: i % 100,
+  tags: i % 3 === 0 ? ["sale", "new"] : ["regular"],
+}));
+
+const predicate = { price: { [GT]: 10, [LT]: 90 }, name: { [MATCH]: "/-\\d*7$/i" }, tags: { [SOME]: "sale" } };
+
+describe("predicate", () => {
+  const test = compilePredicate<Item>(predicate);
+
+  bench("evalPredicate", () => {
+    for (const item of items) evalPredicate(item, predicate);
+  });
+
+  bench("compilePredicate", () => {
+    for (const item of items) test(item);
+  });
+});
+
+describe("select", () => {
+  const stmt = { [ALL]: { [WHERE]: predicate, id: true, name: true } };
+  const run = compileSelect<Item[]>(stmt);
+
+  bench("select", () => {
+    select(items, stmt);
+  });
+
+  bench("compileSelect", () => {
+    run(items);
+  });
+});
+
+describe("update", () => {
+  const stmt = { [ALL]: { [WHERE]: predicate, price: { [INC]: 0 } } };
+  const run = compileUpdate<Item[]>(stmt);
+
+  bench("update", () => {
+    update(items, stmt);
+  });
+
+  bench("compileUpdate", () => {
+    run(items);
+  });
+});
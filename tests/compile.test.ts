@@ -0,0 +1,197 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  compilePredicate,
+  configurePatterns,
+  compileSelect,
+  compileUpdate,
+  evalPredicate,
+  select,
+  update,
+  undo,
+  ALL,
+  DEEP_ALL,
+  WHERE,
+  DEFAULT,
+  CONTEXT,
+  INC,
+  LT,
+  GT,
+  LTE,
+  GTE,
+  EQ,
+  NEQ,
+  NOT,
+  MATCH,
+  SOME,
+  BY_KEY,
+  LIMIT,
+  ORDER_BY,
+  GROUP_BY,
+  PUSH,
+  RENAME,
+  UPSERT,
+} from "../src/index.js";
+
+const values: any[] = [
+  null,
+  undefined,
+  0,
+  5,
+  "5",
+  "apple",
+  "Banana",
+  true,
+  [],
+  [1, 5, 10],
+  { name: "apple", price: 5, tags: ["fruit", "red"] },
+  { name: "kiwi", price: null, tags: [] },
+  { nested: { deep: { value: 3 } } },
+];
+
+const predicates: any[] = [
+  5,
+  null,
+  "apple",
+  {},
+  { [GT]: 3 },
+  { [LT]: 5, [GTE]: 0 },
+  { [LTE]: "b" },
+  { [EQ]: null },
+  { [NEQ]: undefined },
+  { [NOT]: 5 },
+  { [NOT]: [{ [GT]: 4 }, "apple"] },
+  [{ [LT]: 1 }, { [MATCH]: "^a" }],
+  { [MATCH]: "/^b/i" },
+  { [MATCH]: "/a/g" },
+  { [ALL]: { [GT]: 0 } },
+  { [SOME]: { [EQ]: 10 } },
+  { [SOME]: "red" },
+  { name: "apple" },
+  { name: { [MATCH]: "i" }, price: { [NOT]: null } },
+  { tags: { [SOME]: "fruit" } },
+  { nested: { deep: { value: { [GTE]: 3 } } } },
+  { price: { [EQ]: null }, missing: { [EQ]: undefined } },
+];
+
+describe("compilePredicate", () => {
+  it.each(predicates.map((predicate, i) => [i, predicate]))("should match evalPredicate for predicate %i", (_, predicate) => {
+    const test = compilePredicate(predicate);
+
+    for (const value of values) {
+      expect(test(value), `value ${JSON.stringify(value)}`).toBe(evalPredicate(value, predicate));
+    }
+  });
+
+  it("should give the same result when global regexes are reused", () => {
+    const test = compilePredicate<string>({ [MATCH]: "/a/g" });
+
+    expect([test("a"), test("a"), test("a")]).toEqual([true, true, true]);
+  });
+
+  it("should treat invalid regexes as not matching", () => {
+    const onError = vi.fn();
+    configurePatterns({ onError });
+    const test = compilePredicate<any>({ [MATCH]: "[" });
+
+    expect(test("[")).toBe(false);
+    expect(test(5)).toBe(false);
+    expect(onError).toHaveBeenCalledTimes(1);
+    configurePatterns({});
+  });
+});
+
+type Product = { id: number; name: string; price: number; tags: string[]; stock?: { count: number } };
+
+const products = (): Product[] => [
+  { id: 1, name: "Apple", price: 5, tags: ["fruit"], stock: { count: 3 } },
+  { id: 2, name: "Bread", price: 3, tags: ["bakery"] },
+  { id: 3, name: "Avocado", price: 8, tags: ["fruit", "green"], stock: { count: 0 } },
+];
+
+describe("compileSelect", () => {
+  const statements: [string, any][] = [
+    ["WHERE in ALL", { [ALL]: { [WHERE]: { price: { [GT]: 4 } }, name: true } }],
+    ["regex WHERE", { [ALL]: { [WHERE]: { name: { [MATCH]: "/^a/i" } } } }],
+    ["function WHERE", { [ALL]: { [WHERE]: (p: Product) => p.tags.length > 1, id: true } }],
+    ["DEEP_ALL", { [DEEP_ALL]: { [WHERE]: { count: { [GT]: 0 } } } }],
+    ["nested WHERE", { [ALL]: { stock: { [WHERE]: { count: 0 }, count: true } } }],
+    ["DEEP_ALL projection", { [DEEP_ALL]: { count: true, [LIMIT]: 1 } }],
+    ["DEEP_ALL WHERE with fields", { [DEEP_ALL]: { [WHERE]: { tags: { [SOME]: "green" } }, id: true } }],
+    ["BY_KEY", { [BY_KEY]: "name", Bread: { price: true } }],
+    ["paging and grouping", { [ALL]: { id: true }, [ORDER_BY]: { key: "price", desc: true }, [GROUP_BY]: "price" }],
+  ];
+
+  it.each(statements)("should return what select() returns for %s", (_, stmt) => {
+    const run = compileSelect<Product[]>(stmt);
+
+    expect(run(products())).toEqual(select(products(), stmt));
+    expect(run(products())).toEqual(select(products(), stmt));
+  });
+
+  it("should not modify the statement", () => {
+    const where = { price: { [GT]: 4 } };
+    const stmt = { [ALL]: { [WHERE]: where, name: true } };
+
+    compileSelect<Product[]>(stmt);
+
+    expect(stmt[ALL][WHERE]).toBe(where);
+  });
+});
+
+describe("compileUpdate", () => {
+  const statements: [string, any][] = [
+    ["WHERE in ALL", { [ALL]: { [WHERE]: { tags: { [SOME]: "fruit" } }, price: { [INC]: 1 } } }],
+    ["value operator WHERE", { [ALL]: { price: { [WHERE]: { [LT]: 5 }, [INC]: 10 } } }],
+    ["DEFAULT", { [ALL]: { stock: { [WHERE]: { [EQ]: null }, [DEFAULT]: { count: 0 }, count: 1 } } }],
+    ["CONTEXT", { [CONTEXT]: { min: 4 }, [ALL]: { [WHERE]: (p: Product, ctx: any) => p.price > ctx.min, name: "Sale" } }],
+    ["DEEP_ALL", { [DEEP_ALL]: { [WHERE]: { count: { [GT]: 0 } }, count: { [INC]: -1 } } }],
+    ["replacement", { "0": [{ id: 9, name: "New", price: 1, tags: [] }], "1": { tags: { [ALL]: "x" } } }],
+    ["DEEP_ALL without WHERE", { [DEEP_ALL]: { count: { [INC]: 1 } } }],
+    ["BY_KEY", { [BY_KEY]: "name", Bread: { price: 4 }, [PUSH]: [{ id: 4, name: "Fig", price: 2, tags: [] }] }],
+    ["RENAME and UPSERT", { [ALL]: { [UPSERT]: true, [RENAME]: { stock: ["inventory", "stock"] }, meta: { seen: true } } }],
+    ["statements of functions", { [ALL]: { stock: (stock?: { count: number }) => (stock ? { count: stock.count * 2 } : [{ count: 1 }]) } }],
+  ];
+
+  it.each(statements)("should return what update() returns for %s", (_, stmt) => {
+    const run = compileUpdate<Product[]>(stmt);
+    const data = products();
+    const expected = products();
+
+    expect(run(data)).toEqual(update(expected, stmt));
+    expect(data).toEqual(expected);
+  });
+
+  it("should be reusable and its results undoable", () => {
+    const run = compileUpdate<Product[]>({ [ALL]: { [WHERE]: { name: { [MATCH]: "^A" } }, price: { [INC]: 1 } } });
+    const data = products();
+
+    const first = run(data);
+    const second = run(data);
+    expect(data.map((p) => p.price)).toEqual([7, 3, 10]);
+
+    undo(data, second);
+    undo(data, first);
+    expect(data).toEqual(products());
+  });
+
+  it("should not keep the keys ALL expands to between calls", () => {
+    const run = compileUpdate<Product[]>({ [ALL]: { price: 1 } });
+    const data = products();
+    const short = products().slice(0, 1);
+
+    run(data);
+    run(short);
+
+    expect(short).toEqual([{ ...products()[0], price: 1 }]);
+  });
+
+  it("should merge into given changes like update()", () => {
+    const run = compileUpdate<Product[]>({ "0": { price: 6 } });
+    const data = products();
+
+    const changes = update(data, { "0": { name: "Pear" } });
+    run(data, changes);
+
+    expect(changes).toEqual(update(products(), { "0": { name: "Pear", price: 6 } }));
+  });
+});
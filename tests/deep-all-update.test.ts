@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { update, updateImmutable, undo, DEEP_ALL, ALL, WHERE, META, INC, GT } from "../src/index.js";
+
+describe("DEEP_ALL in updates", () => {
+  it("should update matching objects at any depth", () => {
+    const data = {
+      total: { type: "price", currency: "USD" },
+      lines: [{ price: { type: "price", currency: "USD" }, discount: { type: "rate", amount: 5 } }],
+      shipping: { carrier: "UPS", fee: { type: "price", currency: "USD" } },
+    };
+
+    update(data, { [DEEP_ALL]: { [WHERE]: { type: "price" }, currency: "EUR" } });
+
+    expect(data.total.currency).toBe("EUR");
+    expect(data.lines[0].price.currency).toBe("EUR");
+    expect(data.shipping.fee.currency).toBe("EUR");
+    expect(data.lines[0].discount).toEqual({ type: "rate", amount: 5 });
+    expect(data.shipping).not.toHaveProperty("currency");
+  });
+
+  it("should record changes along the real paths", () => {
+    const data = {
+      total: { type: "price", amount: 100, currency: "USD" },
+      lines: [
+        { price: { type: "price", amount: 60, currency: "USD" } },
+        { price: { type: "price", amount: 40, currency: "USD" } },
+      ],
+    };
+
+    const changes = update(data, { [DEEP_ALL]: { [WHERE]: { type: "price", amount: { [GT]: 50 } }, currency: "EUR" } });
+
+    expect(changes).toEqual({
+      total: { currency: "EUR", [META]: { currency: { original: "USD" } } },
+      lines: {
+        "0": { price: { currency: "EUR", [META]: { currency: { original: "USD" } } } },
+      },
+    });
+  });
+
+  it("should be reverted by undo", () => {
+    const data = {
+      total: { type: "price", amount: 100, currency: "USD" },
+      lines: [{ price: { type: "price", amount: 60, currency: "USD" }, discount: { type: "rate", amount: 5 } }],
+    };
+
+    const changes = update(data, {
+      [DEEP_ALL]: { [WHERE]: { type: "price" }, amount: { [INC]: 10 }, currency: "EUR", note: "converted" },
+    });
+    undo(data, changes);
+
+    expect(data).toEqual({
+      total: { type: "price", amount: 100, currency: "USD" },
+      lines: [{ price: { type: "price", amount: 60, currency: "USD" }, discount: { type: "rate", amount: 5 } }],
+    });
+  });
+
+  it("should update every nested object without WHERE", () => {
+    const data = { a: { b: { c: {} } }, list: [{}, 1] };
+
+    update(data, { [DEEP_ALL]: { seen: true } });
+
+    expect(data).toEqual({ a: { seen: true, b: { seen: true, c: { seen: true } } }, list: [{ seen: true }, 1] });
+  });
+
+  it("should continue into the children of matching objects", () => {
+    const data = { tree: { kind: "node", value: 1, child: { kind: "node", value: 2, child: { kind: "leaf", value: 3 } } } };
+
+    update(data, { [DEEP_ALL]: { [WHERE]: { kind: "node" }, value: { [INC]: 10 } } });
+
+    expect(data.tree.value).toBe(11);
+    expect(data.tree.child.value).toBe(12);
+    expect(data.tree.child.child.value).toBe(3);
+  });
+
+  it("should only apply below the object it's in", () => {
+    const data = { type: "price", currency: "USD", nested: { type: "price", currency: "USD" } };
+
+    update(data, { [DEEP_ALL]: { [WHERE]: { type: "price" }, currency: "EUR" } });
+
+    expect(data.currency).toBe("USD");
+    expect(data.nested.currency).toBe("EUR");
+  });
+
+  it("should combine with other keys of the statement", () => {
+    const data = { id: 1, total: { type: "price", currency: "USD" }, shipping: { fee: { type: "price", currency: "USD" } } };
+
+    update(data, { id: 2, shipping: { [DEEP_ALL]: { [WHERE]: { type: "price" }, currency: "EUR" } } });
+
+    expect(data.id).toBe(2);
+    expect(data.shipping.fee.currency).toBe("EUR");
+    expect(data.total.currency).toBe("USD");
+  });
+
+  it("should visit objects in cycles once", () => {
+    const node: any = { type: "price", amount: 1, children: [] };
+    const data: any = { root: node, again: node };
+    node.children.push(node, { type: "price", amount: 2, parent: node });
+
+    const changes = update(data, { [DEEP_ALL]: { [WHERE]: { type: "price" }, amount: { [INC]: 1 } } });
+
+    expect(node.amount).toBe(2);
+    expect(node.children[1].amount).toBe(3);
+
+    undo(data, changes);
+    expect(node.amount).toBe(1);
+    expect(node.children[1].amount).toBe(2);
+  });
+
+  it("should not reach objects its own statement creates", () => {
+    const data: any = { a: { b: 1 } };
+    const typed: any = { a: { type: "x" } };
+
+    update(data, { [DEEP_ALL]: { meta: [{}] } });
+    update(typed, { [DEEP_ALL]: { [WHERE]: { type: "x" }, child: [{ type: "x" }] } });
+
+    expect(data).toEqual({ a: { b: 1, meta: {} } });
+    expect(typed).toEqual({ a: { type: "x", child: { type: "x" } } });
+  });
+
+  it("should reach copies of nested objects in updateImmutable", () => {
+    const data = { p: { kind: "p", b: { kind: "p", b: {} } } };
+    const stmt = { [DEEP_ALL]: { [WHERE]: { kind: "p" }, b: { seen: true } } };
+
+    const { data: next } = updateImmutable(data, stmt);
+
+    expect(next).toEqual({ p: { kind: "p", b: { kind: "p", seen: true, b: { seen: true } } } });
+    expect(data).toEqual({ p: { kind: "p", b: { kind: "p", b: {} } } });
+  });
+
+  it("should reach elements added by the same statement", () => {
+    const data = {
+      lines: [{ price: { type: "price", amount: 60, currency: "USD" } }],
+      shipping: { carrier: "UPS", fee: { type: "price", amount: 0, currency: "USD" } },
+    };
+
+    update(data, {
+      lines: { [ALL]: { price: { amount: 0 } } },
+      shipping: [{ carrier: "DHL", fee: { type: "price", amount: 5, currency: "USD" } }],
+      [DEEP_ALL]: { [WHERE]: { type: "price" }, currency: "EUR" },
+    });
+
+    expect(data.shipping).toEqual({ carrier: "DHL", fee: { type: "price", amount: 5, currency: "EUR" } });
+    expect(data.lines[0].price).toEqual({ type: "price", amount: 0, currency: "EUR" });
+  });
+
+  it("should copy changed paths in updateImmutable", () => {
+    const data = { lines: [{ price: { type: "price", currency: "USD" }, discount: { type: "rate", amount: 5 } }] };
+
+    const { data: next, changes } = updateImmutable(data, { [DEEP_ALL]: { [WHERE]: { type: "price" }, currency: "EUR" } });
+
+    expect(data).toEqual({ lines: [{ price: { type: "price", currency: "USD" }, discount: { type: "rate", amount: 5 } }] });
+    expect(next.lines[0].price.currency).toBe("EUR");
+    expect(next.lines[0].discount).toBe(data.lines[0].discount);
+    expect(changes).toEqual({ lines: { "0": { price: { currency: "EUR", [META]: { currency: { original: "USD" } } } } } });
+  });
+});
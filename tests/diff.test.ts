@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import { diff, update, undo, formatChanges, PUSH, INSERT, type DiffOptions } from "../src/index.js";
+
+// Applies diff(before, after) to a copy of before and checks it ends up equal to after
+function roundTrip<T extends object>(before: T, change: (doc: T) => void, options?: DiffOptions) {
+  const after = structuredClone(before);
+  change(after);
+
+  const stmt = diff(before, after, options);
+  const data = structuredClone(before);
+  const changes = update(data, stmt);
+  expect(data).toEqual(after);
+
+  // undo restores before, so the UpdateResult is complete
+  undo(data, changes);
+  expect(data).toEqual(before);
+  return { stmt, changes };
+}
+
+describe("diff", () => {
+  it("should emit key updates, deletions and additions", () => {
+    const before: { user: { age: number; nickname?: string }; settings: Record<string, string> } = {
+      user: { age: 30, nickname: "Ali" },
+      settings: { theme: "dark" },
+    };
+    const after = structuredClone(before);
+    after.user.age = 31;
+    delete after.user.nickname;
+    after.settings.language = "en";
+
+    expect(diff(before, after)).toEqual({
+      user: { age: 31, nickname: [] },
+      settings: { language: "en" },
+    });
+  });
+
+  it("should return an empty statement for equal values", () => {
+    expect(diff({ user: { name: "Alice" }, tags: ["a"] }, { user: { name: "Alice" }, tags: ["a"] })).toEqual({});
+  });
+
+  it("should replace objects that are new or change type", () => {
+    const before: { user: { profile: { bio: string } | null }; settings: Record<string, any> } = {
+      user: { profile: { bio: "Dev" } },
+      settings: { theme: "dark", layout: { sidebar: true } },
+    };
+    const after = structuredClone(before);
+    after.user.profile = null;
+    after.settings.theme = { name: "dark" };
+    after.settings.layout = [1, 2];
+    after.settings.extra = { a: 1 };
+
+    expect(diff(before, after)).toEqual({
+      user: { profile: null },
+      settings: { theme: [{ name: "dark" }], layout: [[1, 2]], extra: [{ a: 1 }] },
+    });
+  });
+
+  it("should compare dates by time and replace them", () => {
+    const before = { user: { createdAt: new Date(0) } };
+    const after = structuredClone(before);
+    after.user.createdAt = new Date(1000);
+
+    expect(diff(before, after)).toEqual({ user: { createdAt: [new Date(1000)] } });
+  });
+
+  it("should produce a correct UpdateResult", () => {
+    const { changes } = roundTrip({ user: { age: 30 }, settings: { layout: { sidebar: true } } }, (doc) => {
+      doc.user.age = 31;
+      doc.settings.layout.sidebar = false;
+    });
+
+    expect(formatChanges(changes)).toEqual([
+      { path: ["user", "age"], kind: "changed", before: 30, after: 31 },
+      { path: ["settings", "layout", "sidebar"], kind: "changed", before: true, after: false },
+    ]);
+  });
+
+  describe("arrays by index", () => {
+    it("should update changed indices", () => {
+      const data = {
+        items: [
+          { id: 1, price: 100 },
+          { id: 2, price: 200 },
+        ],
+        tags: ["a", "b", "c"],
+      };
+
+      const { stmt } = roundTrip(data, (doc) => {
+        doc.items[1].price = 250;
+        doc.tags[0] = "z";
+      });
+
+      expect(stmt).toEqual({ items: { "1": { price: 250 } }, tags: { "0": "z" } });
+    });
+
+    it("should push new elements", () => {
+      const { stmt } = roundTrip({ tags: ["a", "b", "c"] }, (doc) => doc.tags.push("d", "e"));
+
+      expect(stmt).toEqual({ tags: { [PUSH]: ["d", "e"] } });
+    });
+
+    it("should delete removed elements", () => {
+      const { stmt } = roundTrip({ tags: ["a", "b", "c"] }, (doc) => doc.tags.splice(1, 2));
+
+      expect(stmt).toEqual({ tags: { "1": [], "2": [] } });
+    });
+
+    it("should shift elements after a removal in the middle", () => {
+      roundTrip({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] }, (doc) => doc.items.splice(0, 1));
+    });
+  });
+
+  describe("arrays by key", () => {
+    const items = () => ({
+      items: [
+        { id: 1, price: 100 },
+        { id: 2, price: 200 },
+        { id: 3, price: 300 },
+      ],
+    });
+
+    it("should match elements by key", () => {
+      const { stmt } = roundTrip(
+        items(),
+        (doc) => {
+          doc.items.splice(0, 1);
+          doc.items[1].price = 350;
+        },
+        { key: "id" },
+      );
+
+      expect(stmt).toEqual({ items: { "0": [], "2": { price: 350 } } });
+    });
+
+    it("should insert and push new elements", () => {
+      const { stmt } = roundTrip(
+        items(),
+        (doc) => {
+          doc.items.splice(1, 0, { id: 4, price: 1 }, { id: 5, price: 2 });
+          doc.items.push({ id: 6, price: 3 });
+        },
+        { key: "id" },
+      );
+
+      expect(stmt).toEqual({
+        items: {
+          [INSERT]: [1, { id: 4, price: 1 }, { id: 5, price: 2 }],
+          [PUSH]: [{ id: 6, price: 3 }],
+        },
+      });
+    });
+
+    it("should accept a function returning the identity", () => {
+      const before = ["a", "b", "c"];
+      const after = ["b", "c", "d"];
+
+      expect(diff(before, after, { key: (tag) => tag })).toEqual({ "0": [], [PUSH]: ["d"] });
+    });
+
+    it("should fall back to indices when elements are reordered", () => {
+      const { stmt } = roundTrip(items(), (doc) => doc.items.reverse(), { key: "id" });
+
+      expect(stmt).toEqual({
+        items: { "0": { id: 3, price: 300 }, "2": { id: 1, price: 100 } },
+      });
+    });
+
+    it("should fall back to indices when new elements are scattered", () => {
+      roundTrip(
+        items(),
+        (doc) => {
+          doc.items.splice(0, 0, { id: 7, price: 7 });
+          doc.items.splice(2, 0, { id: 8, price: 8 });
+        },
+        { key: "id" },
+      );
+    });
+
+    it("should fall back to indices without unique keys", () => {
+      roundTrip({ tags: ["a", "b", "c"] }, (doc) => doc.tags.splice(0, 3, "x", "x"), { key: (tag) => tag });
+    });
+  });
+
+  it("should reject an array and an object", () => {
+    expect(() => diff([] as any, {})).toThrow("Can't diff an array with an object");
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { update, transaction, formatChanges, renderChanges, ALL, PUSH, SPLICE, INC } from "../src/index.js";
+
+describe("formatChanges", () => {
+  it("should list added, removed and changed values with their paths", () => {
+    const data: { user: { age: number; nickname?: string }; settings: Record<string, string> } = {
+      user: { age: 30, nickname: "Ali" },
+      settings: { theme: "dark" },
+    };
+
+    const changes = update(data, {
+      user: { age: 31, nickname: [] },
+      settings: { language: "en" },
+    });
+
+    expect(formatChanges(changes)).toEqual([
+      { path: ["user", "age"], kind: "changed", before: 30, after: 31 },
+      { path: ["user", "nickname"], kind: "removed", before: "Ali" },
+      { path: ["settings", "language"], kind: "added", after: "en" },
+    ]);
+  });
+
+  it("should report replaced objects as one change", () => {
+    const data = { user: { profile: { bio: "Dev" } } };
+
+    const changes = update(data, { user: { profile: [{ bio: "Ops" }] } });
+
+    expect(formatChanges(changes)).toEqual([
+      { path: ["user", "profile"], kind: "changed", before: { bio: "Dev" }, after: { bio: "Ops" } },
+    ]);
+  });
+
+  it("should list array elements by index", () => {
+    const data = {
+      items: [
+        { id: 1, price: 100 },
+        { id: 2, price: 200 },
+      ],
+      tags: ["a", "b", "c"],
+    };
+
+    const changes = update(data, {
+      items: { [ALL]: { price: { [INC]: 1 } } },
+      tags: { [PUSH]: ["d"] },
+    });
+
+    expect(formatChanges(changes)).toEqual([
+      { path: ["items", "0", "price"], kind: "changed", before: 100, after: 101 },
+      { path: ["items", "1", "price"], kind: "changed", before: 200, after: 201 },
+      { path: ["tags", "3"], kind: "added", after: "d" },
+    ]);
+  });
+
+  it("should list removed array elements", () => {
+    const data = { tags: ["a", "b", "c"] };
+
+    const changes = update(data, { tags: { [SPLICE]: [0, 2] } });
+
+    expect(formatChanges(changes)).toEqual([
+      { path: ["tags", "0"], kind: "changed", before: "a", after: "c" },
+      { path: ["tags", "1"], kind: "removed", before: "b" },
+      { path: ["tags", "2"], kind: "removed", before: "c" },
+    ]);
+  });
+
+  it("should list a length key of an object", () => {
+    const changes = update({ box: { length: 1, width: 2 } }, { box: { length: 2, width: 3 } });
+
+    expect(formatChanges(changes)).toEqual([
+      { path: ["box", "length"], kind: "changed", before: 1, after: 2 },
+      { path: ["box", "width"], kind: "changed", before: 2, after: 3 },
+    ]);
+  });
+
+  it("should format committed transactions", () => {
+    const tx = transaction({ user: { name: "Alice", age: 30 } });
+    tx.update({ user: { age: 31 } });
+    tx.update({ user: { age: 32, name: "Bob" } });
+
+    expect(formatChanges(tx.commit())).toEqual([
+      { path: ["user", "age"], kind: "changed", before: 30, after: 32 },
+      { path: ["user", "name"], kind: "changed", before: "Alice", after: "Bob" },
+    ]);
+  });
+
+  it("should return no entries without changes", () => {
+    expect(formatChanges(undefined)).toEqual([]);
+  });
+});
+
+describe("renderChanges", () => {
+  const entries = () => {
+    const data: { user: { age: number; nickname?: string }; settings: Record<string, string> } = {
+      user: { age: 30, nickname: "Ali" },
+      settings: { theme: "dark" },
+    };
+    return formatChanges(update(data, { user: { age: 31, nickname: [] }, settings: { language: "en|fr" } }));
+  };
+
+  it("should render text lines", () => {
+    expect(renderChanges(entries())).toBe(
+      ['~ user.age: 30 -> 31', '- user.nickname: "Ali"', '+ settings.language: "en|fr"'].join("\n"),
+    );
+  });
+
+  it("should render a markdown table", () => {
+    expect(renderChanges(entries(), { format: "markdown" })).toBe(
+      [
+        "| Path | Change | Before | After |",
+        "| --- | --- | --- | --- |",
+        "| user.age | changed | `30` | `31` |",
+        '| user.nickname | removed | `"Ali"` |  |',
+        '| settings.language | added |  | `"en\\|fr"` |',
+      ].join("\n"),
+    );
+  });
+
+  it("should render functions and undefined values", () => {
+    function handler() {}
+
+    expect(renderChanges([{ path: ["a"], kind: "changed", before: undefined, after: handler }])).toBe(
+      "~ a: undefined -> [Function handler]",
+    );
+  });
+});
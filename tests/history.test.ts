@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from "vitest";
+import { history, transaction, META, PUSH, INC, type HistoryState } from "../src/index.js";
+
+describe("history", () => {
+  it("should undo and redo updates in order", () => {
+    const data = { doc: { title: "Untitled" }, count: 0 };
+    const h = history(data);
+
+    h.update({ doc: { title: "One" } });
+    h.update({ doc: { title: "Two" }, count: { [INC]: 1 } });
+
+    h.undo();
+    expect(data.doc.title).toBe("One");
+    expect(data.count).toBe(0);
+
+    h.undo();
+    expect(data).toEqual({ doc: { title: "Untitled" }, count: 0 });
+
+    h.redo();
+    expect(data.doc.title).toBe("One");
+
+    h.redo();
+    expect(data.doc.title).toBe("Two");
+    expect(data.count).toBe(1);
+  });
+
+  it("should report canUndo and canRedo", () => {
+    const h = history({ count: 0 });
+
+    expect(h.canUndo()).toBe(false);
+    h.update({ count: 1 });
+    expect(h.canUndo()).toBe(true);
+    expect(h.canRedo()).toBe(false);
+
+    h.undo();
+    expect(h.canUndo()).toBe(false);
+    expect(h.canRedo()).toBe(true);
+  });
+
+  it("should not record updates without changes", () => {
+    const h = history({ count: 0 });
+
+    h.update({ count: 0 });
+
+    expect(h.undoSize).toBe(0);
+  });
+
+  it("should clear redo after a new update", () => {
+    const h = history({ count: 0 });
+
+    h.update({ count: 1 });
+    h.undo();
+    h.update({ count: 2 });
+
+    expect(h.canRedo()).toBe(false);
+  });
+
+  it("should drop the oldest steps over the limit", () => {
+    const data = { count: 0 };
+    const h = history(data, { limit: 2 });
+
+    h.update({ count: 1 }).update({ count: 2 }).update({ count: 3 });
+
+    expect(h.undoSize).toBe(2);
+    h.undo();
+    h.undo();
+    expect(h.undo()).toBeUndefined();
+    expect(data.count).toBe(1);
+  });
+
+  it("should group consecutive updates into one step", () => {
+    const data = { doc: { body: "" }, tags: ["draft"], count: 0 };
+    const h = history(data);
+
+    h.update({ count: 1 });
+    h.beginGroup();
+    h.update({ doc: { body: "H" } });
+    h.update({ doc: { body: "He" } });
+    h.update({ doc: { body: "Hey" }, tags: { [PUSH]: ["typed"] } });
+    h.endGroup();
+
+    expect(h.undoSize).toBe(2);
+
+    h.undo();
+    expect(data.doc.body).toBe("");
+    expect(data.tags).toEqual(["draft"]);
+    expect(data.count).toBe(1);
+
+    h.redo();
+    expect(data.doc.body).toBe("Hey");
+    expect(data.tags).toEqual(["draft", "typed"]);
+  });
+
+  it("should support nested groups", () => {
+    const h = history({ count: 0 });
+
+    h.beginGroup();
+    h.update({ count: 1 });
+    h.beginGroup();
+    h.update({ count: 2 });
+    h.endGroup();
+    h.update({ count: 3 });
+    h.endGroup();
+
+    expect(h.undoSize).toBe(1);
+  });
+
+  it("should merge replaced values within a group", () => {
+    const data = { doc: { title: "Untitled", body: "" } };
+    const h = history(data);
+
+    h.beginGroup();
+    h.update({ doc: { title: "A" } });
+    h.update({ doc: [{ title: "B", body: "b" }] });
+    h.update({ doc: { title: "C" } });
+    h.endGroup();
+
+    expect(data.doc).toEqual({ title: "C", body: "b" });
+    expect(META in data.doc).toBe(false);
+
+    h.undo();
+    expect(data).toEqual({ doc: { title: "Untitled", body: "" } });
+
+    h.redo();
+    expect(data.doc).toEqual({ title: "C", body: "b" });
+  });
+
+  it("should record committed transactions as one step", () => {
+    const data = { doc: { title: "Untitled" }, count: 0 };
+    const h = history(data);
+
+    h.transaction()
+      .update({ count: 1 })
+      .update({ doc: { title: "Tx" } })
+      .commit();
+
+    expect(h.undoSize).toBe(1);
+    h.undo();
+    expect(data).toEqual({ doc: { title: "Untitled" }, count: 0 });
+  });
+
+  it("should record results from transaction()", () => {
+    const data = { count: 0 };
+    const h = history(data);
+
+    const changes = transaction(data).update({ count: 5 }).commit();
+    h.record(changes);
+
+    h.undo();
+    expect(data.count).toBe(0);
+  });
+
+  it("should remove added keys on undo", () => {
+    const data: Record<string, any> = { a: 1 };
+    const h = history(data);
+
+    h.update({ b: 2 });
+    h.undo();
+
+    expect("b" in data).toBe(false);
+  });
+
+  it("should emit stack sizes", () => {
+    const onChange = vi.fn<(state: HistoryState) => void>();
+    const h = history({ count: 0 }, { onChange });
+
+    h.update({ count: 1 });
+    h.update({ count: 2 });
+    h.undo();
+    h.clear();
+
+    expect(onChange.mock.calls.map(([state]) => state)).toEqual([
+      { undoSize: 1, redoSize: 0 },
+      { undoSize: 2, redoSize: 0 },
+      { undoSize: 1, redoSize: 1 },
+      { undoSize: 0, redoSize: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { update, updateImmutable, undo, META, ALL, WHERE, DEFAULT, CONTEXT } from "../src/index.js";
+
+function deepFreeze<T>(value: T): T {
+  if (value != null && typeof value === "object") {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+describe("updateImmutable", () => {
+  it("should return a new root and leave the input untouched", () => {
+    const data = deepFreeze({
+      user: { name: "Alice", age: 30 },
+      settings: { theme: "dark" },
+    });
+
+    const { data: next, changes } = updateImmutable(data, {
+      user: { age: 31 },
+    });
+
+    expect(next).not.toBe(data);
+    expect(next.user).not.toBe(data.user);
+    expect(next.user).toEqual({ name: "Alice", age: 31 });
+    expect(data.user.age).toBe(30);
+    expect(changes).toEqual({
+      user: { age: 31, [META]: { age: { original: 30 } } },
+    });
+  });
+
+  it("should share unchanged branches with the input", () => {
+    const data = deepFreeze({
+      a: { x: 1 },
+      b: { y: { z: 2 } },
+      c: [{ id: 1 }, { id: 2 }],
+    });
+
+    const { data: next } = updateImmutable(data, {
+      b: { y: { z: 3 } },
+      c: { "1": { id: 3 } },
+    });
+
+    expect(next.a).toBe(data.a);
+    expect(next.b).not.toBe(data.b);
+    expect(next.b.y).not.toBe(data.b.y);
+    expect(next.c).not.toBe(data.c);
+    expect(next.c[0]).toBe(data.c[0]);
+    expect(next.c[1]).toEqual({ id: 3 });
+    expect(Array.isArray(next.c)).toBe(true);
+  });
+
+  it("should return the input itself when nothing changes", () => {
+    const data = deepFreeze({ user: { name: "Alice" } });
+
+    const { data: next, changes } = updateImmutable(data, { user: { name: "Alice" } });
+
+    expect(next).toBe(data);
+    expect(changes).toBeUndefined();
+  });
+
+  it("should produce the same changes as update()", () => {
+    const statement = {
+      [CONTEXT]: { bonus: 5 },
+      users: {
+        [ALL]: {
+          [WHERE]: { active: true },
+          score: (s: number, u: any, k: string, ctx: any) => s + ctx.bonus,
+        },
+        "-1": { name: "Last" },
+      },
+      profile: {
+        [DEFAULT]: { bio: "", avatar: "" },
+        bio: "Hello",
+      },
+      nickname: [],
+      settings: [{ theme: "light" }],
+    } as any;
+
+    const create = (): any => ({
+      users: [
+        { name: "A", score: 1, active: true },
+        { name: "B", score: 2, active: false },
+        { name: "C", score: 3, active: true },
+      ],
+      profile: null,
+      nickname: "nick",
+      settings: { theme: "dark", fontSize: 12 },
+    });
+
+    const mutable = create();
+    const expected = update(mutable, statement);
+
+    const data = deepFreeze(create());
+    const { data: next, changes } = updateImmutable(data, statement);
+
+    expect(changes).toEqual(expected);
+    expect(next).toEqual(mutable);
+    expect(data).toEqual(create());
+    expect("nickname" in next).toBe(false);
+  });
+
+  it("should keep original objects in META", () => {
+    const data = deepFreeze({ user: { name: "Alice", age: 30 } });
+
+    const { changes } = updateImmutable(data, {
+      user: [{ name: "Bob", age: 25 }],
+    });
+
+    expect(changes?.[META]?.user?.original).toBe(data.user);
+  });
+
+  it("should accumulate changes across versions without touching earlier versions", () => {
+    const v0 = deepFreeze({ user: { name: "Alice", profile: { bio: "a" } } });
+
+    const first = updateImmutable(v0, { user: { profile: { bio: "b" } } });
+    const v1 = deepFreeze(first.data);
+    const second = updateImmutable(v1, { user: { profile: [{ bio: "c" }] } }, first.changes);
+
+    expect(v1.user.profile.bio).toBe("b");
+    expect(second.data.user.profile.bio).toBe("c");
+    expect(second.changes?.user?.[META]?.profile?.original).toEqual({ bio: "a" });
+  });
+
+  it("should be revertible with undo on the new root", () => {
+    const data = deepFreeze({ counter: { value: 1 }, tags: ["a", "b"] });
+
+    const { data: next, changes } = updateImmutable(data, {
+      counter: { value: 2 },
+      tags: { "0": "z" },
+    });
+
+    undo(next, changes);
+    expect(next).toEqual(data);
+  });
+});
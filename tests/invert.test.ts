@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import {
+  update,
+  undo,
+  invert,
+  transaction,
+  toJSON,
+  fromJSON,
+  META,
+  ALL,
+  PUSH,
+  INSERT,
+  SPLICE,
+  MOVE,
+  INC,
+  BY_KEY,
+  ADD_TO_SET,
+  PULL,
+  MATCH,
+  UPSERT,
+  RENAME,
+  REF,
+  MUL,
+  CONTEXT,
+} from "../src/index.js";
+import { updateCases, type UpdateCase } from "./update-cases.js";
+
+// Cases for what update.test.ts predates: the array operators and the operators added since
+const invertCases: UpdateCase[] = [
+  {
+    name: "ALL with operators",
+    data: () => ({ items: [{ price: 100 }, { price: 200 }] }),
+    statements: [{ items: { [ALL]: { price: { [INC]: 5 } } } }],
+  },
+  { name: "PUSH", data: () => ({ tags: ["a", "b", "c"] }), statements: [{ tags: { [PUSH]: ["d", "e"] } }] },
+  { name: "INSERT", data: () => ({ tags: ["a", "b", "c"] }), statements: [{ tags: { [INSERT]: [0, "z"] } }] },
+  {
+    name: "SPLICE",
+    data: () => ({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] }),
+    statements: [{ items: { [SPLICE]: [0, 2, { id: 9 }] } }],
+  },
+  { name: "MOVE", data: () => ({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] }), statements: [{ items: { [MOVE]: [0, -1] } }] },
+  { name: "array deletion", data: () => ({ tags: ["a", "b", "c"] }), statements: [{ tags: { "1": [] } }] },
+  {
+    name: "BY_KEY",
+    data: () => ({ lines: [{ sku: "sku-1", qty: 1 }, { sku: "sku-42", qty: 2 }, { sku: "sku-7", qty: 1 }] }),
+    statements: [{ lines: { [BY_KEY]: "sku", "sku-42": { qty: 3 }, "sku-7": [] } }],
+  },
+  {
+    name: "ADD_TO_SET and PULL",
+    data: () => ({ roles: ["temp-1", "admin", "temp-2", "editor"] }),
+    statements: [{ roles: { [PULL]: { [MATCH]: "^temp" }, [ADD_TO_SET]: ["viewer", "admin"] } }],
+  },
+  {
+    name: "UPSERT",
+    data: () => ({ settings: { profiles: { base: { font: 12 } } } }),
+    statements: [{ [UPSERT]: true, settings: { owner: { name: "Ann" }, profiles: { p1: { theme: { mode: "dark" } } } } }],
+  },
+  {
+    name: "RENAME",
+    data: () => ({ fullname: "Ada Lovelace", address: { city: "London" }, profile: { age: 36 } }),
+    statements: [{ [RENAME]: { fullname: "displayName", address: ["profile", "address"] } }],
+  },
+  {
+    name: "REF",
+    data: () => ({ subtotal: 10, total: 0, billing: { city: "Oslo" }, lines: [{ price: 2, qty: 3 }] }),
+    statements: [
+      {
+        [CONTEXT]: { tax: 2 },
+        total: { [REF]: "$.subtotal", [MUL]: { [REF]: "tax" } },
+        shipping: { [REF]: "$.billing" },
+        lines: { [ALL]: { total: { [REF]: "@.price", [MUL]: { [REF]: "@.qty" } } } },
+      },
+    ],
+  },
+];
+
+describe("invert", () => {
+  it("should use original values for replaced primitives", () => {
+    const data = { user: { name: "Alice", age: 30 } };
+
+    const changes = update(data, { user: { age: 31 } });
+
+    expect(invert(changes)).toEqual({ user: { age: 30 } });
+  });
+
+  it("should delete keys that did not exist", () => {
+    const data: { settings: Record<string, string> } = { settings: { theme: "dark" } };
+
+    const changes = update(data, { settings: { language: "en" } });
+
+    expect(invert(changes)).toEqual({ settings: { language: [] } });
+  });
+
+  it("should replace objects with their original", () => {
+    const data = { user: { name: "Alice", age: 30 } };
+    const original = data.user;
+
+    const changes = update(data, { user: [{ name: "Bob", age: 20 }] });
+
+    expect(invert(changes)).toEqual({ user: [original] });
+  });
+
+  it("should restore deleted keys", () => {
+    const data: { user: { name: string; nickname?: string } } = { user: { name: "Alice", nickname: "Ali" } };
+
+    const changes = update(data, { user: { nickname: [] } });
+
+    expect(invert(changes)).toEqual({ user: { nickname: "Ali" } });
+  });
+
+  it("should restore a length key of an object", () => {
+    const data = { box: { length: 1, width: 2 } };
+
+    const changes = update(data, { box: { length: 2, width: 3 } });
+    update(data, invert(changes));
+
+    expect(data).toEqual({ box: { length: 1, width: 2 } });
+  });
+
+  it("should return undefined without changes", () => {
+    expect(invert(undefined)).toBeUndefined();
+  });
+
+  // The inverse is applied on another replica, which only ever sees it serialized
+  it.each([...updateCases, ...invertCases])("should undo $name on another replica", ({ data, statements }) => {
+    const tx = transaction(data());
+    const remote = data();
+    statements.forEach((statement) => {
+      tx.update(statement);
+      update(remote, statement);
+    });
+
+    // Statements without changes have no inverse
+    const inverse = JSON.parse(JSON.stringify(toJSON(invert(tx.commit()) ?? {})));
+    update(remote, fromJSON(inverse));
+
+    expect(remote).toEqual(data());
+  });
+
+  it.each([...updateCases, ...invertCases])("should revert $name like undo", ({ data, statements }) => {
+    const local = data();
+    const tx = transaction(local);
+    statements.forEach((statement) => tx.update(statement));
+    const changes = tx.commit();
+
+    const inverted = structuredClone(local);
+    update(inverted, invert(changes) ?? {});
+    undo(local, changes);
+
+    expect(inverted).toEqual(data());
+    expect(local).toEqual(data());
+  });
+
+  it("should invert transactions", () => {
+    const local = { user: { age: 30 }, tags: ["a", "b", "c"] };
+    const remote = { user: { age: 30 }, tags: ["a", "b", "c"] };
+
+    const tx = transaction(local);
+    tx.update({ user: { age: 40 }, tags: { [PUSH]: ["d"] } });
+    tx.update({ user: { age: 41 }, tags: { "0": [] } });
+    const changes = tx.commit();
+
+    update(remote, {
+      user: { age: 41 },
+      tags: [["b", "c", "d"]],
+    });
+    update(remote, invert(changes));
+
+    expect(remote).toEqual({ user: { age: 30 }, tags: ["a", "b", "c"] });
+  });
+
+  it("should be invertible again to redo", () => {
+    const data = { user: { age: 30 }, tags: ["a", "b", "c"] };
+
+    const changes = update(data, { user: { age: 31 }, tags: { [PUSH]: ["d"] } });
+    const undoChanges = update(data, invert(changes));
+    expect(data).toEqual({ user: { age: 30 }, tags: ["a", "b", "c"] });
+
+    update(data, invert(undoChanges));
+    expect(data.user.age).toBe(31);
+    expect(data.tags).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("should produce an undo result with META originals", () => {
+    const data = { user: { age: 30 } };
+
+    const changes = update(data, { user: { age: 31 } });
+    const undoChanges = update(data, invert(changes));
+
+    expect(undoChanges).toEqual({ user: { age: 30, [META]: { age: { original: 31 } } } });
+  });
+});
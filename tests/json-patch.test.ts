@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import {
+  update,
+  transaction,
+  toJSONPatch,
+  fromJSONPatch,
+  SerializationError,
+  ALL,
+  WHERE,
+  PUSH,
+  INSERT,
+  SPLICE,
+  MOVE,
+  INC,
+  type JSONPatchOperation,
+} from "../src/index.js";
+import { updateCases, type UpdateCase } from "./update-cases.js";
+
+// Minimal RFC 6902 reference implementation to check the generated operations
+function applyPatch(doc: any, operations: JSONPatchOperation[]) {
+  for (const operation of operations) {
+    const path = operation.path
+      .substring(1)
+      .split("/")
+      .map((s) => s.replace(/~1/g, "/").replace(/~0/g, "~"));
+    const key = path.pop()!;
+    const parent = path.reduce((node, segment) => node[segment], doc);
+
+    if (operation.op === "remove") {
+      Array.isArray(parent) ? parent.splice(Number(key), 1) : delete parent[key];
+    } else if (operation.op === "add") {
+      if (Array.isArray(parent)) {
+        parent.splice(key === "-" ? parent.length : Number(key), 0, structuredClone(operation.value));
+      } else {
+        parent[key] = structuredClone(operation.value);
+      }
+    } else if (operation.op === "replace") {
+      parent[key] = structuredClone(operation.value);
+    }
+  }
+  return doc;
+}
+
+// Cases for what update.test.ts predates: escaping and the array operators
+const patchCases: UpdateCase[] = [
+  {
+    name: "new keys and escaping",
+    data: () => ({ settings: { theme: "dark", "a/b~c": 1 } }),
+    statements: [{ settings: { "a/b~c": 2, "new/key": "x", "~": true } }],
+  },
+  {
+    name: "WHERE objects with operators",
+    data: () => ({ items: [{ price: 100, active: true }, { price: 200, active: false }] }),
+    statements: [{ items: { [ALL]: { [WHERE]: { active: true }, price: { [INC]: 1 } } } }],
+  },
+  { name: "negative indices", data: () => ({ tags: ["a", "b", "c"] }), statements: [{ tags: { "-1": "z" } }] },
+  {
+    name: "array element deletion",
+    data: () => ({ tags: ["a", "b", "c"], items: [{ id: 1 }, { id: 2 }, { id: 3 }] }),
+    statements: [{ tags: { "0": [] }, items: { "1": [] } }],
+  },
+  { name: "PUSH", data: () => ({ tags: ["a", "b", "c"] }), statements: [{ tags: { [PUSH]: ["d", "e"] } }] },
+  { name: "INSERT", data: () => ({ tags: ["a", "b", "c"] }), statements: [{ tags: { [INSERT]: [1, "x"] } }] },
+  { name: "SPLICE", data: () => ({ tags: ["a", "b", "c"] }), statements: [{ tags: { [SPLICE]: [0, 2] } }] },
+  { name: "MOVE", data: () => ({ tags: ["a", "b", "c"] }), statements: [{ tags: { [MOVE]: [0, 2] } }] },
+  { name: "array replacement", data: () => ({ tags: ["a", "b", "c"] }), statements: [{ tags: [["q"]] }] },
+  {
+    name: "transactions over arrays",
+    data: () => ({ user: { age: 30 }, tags: ["a", "b", "c"] }),
+    statements: [{ tags: { [PUSH]: ["d"] } }, { tags: { "0": [] }, user: { age: 40 } }, { user: { age: 41 } }],
+  },
+];
+
+describe("JSON Patch", () => {
+  describe("toJSONPatch", () => {
+    it("should emit replace, add and remove operations", () => {
+      const data: { user: { age: number; nickname?: string }; settings: Record<string, string> } = {
+        user: { age: 30, nickname: "Ali" },
+        settings: { theme: "dark" },
+      };
+
+      const changes = update(data, {
+        user: { age: 31, nickname: [] },
+        settings: { language: "en" },
+      });
+
+      expect(toJSONPatch(changes)).toEqual([
+        { op: "replace", path: "/user/age", value: 31 },
+        { op: "remove", path: "/user/nickname" },
+        { op: "add", path: "/settings/language", value: "en" },
+      ]);
+    });
+
+    it("should escape JSON Pointer segments", () => {
+      const data = { settings: { "a/b~c": 1 } };
+
+      const changes = update(data, { settings: { "a/b~c": 2 } });
+
+      expect(toJSONPatch(changes)).toEqual([{ op: "replace", path: "/settings/a~1b~0c", value: 2 }]);
+    });
+
+    it("should emit array adds ascending and removes descending", () => {
+      const grow = { tags: ["a", "b", "c"] };
+      const removeData = { tags: ["a", "b", "c"] };
+
+      expect(toJSONPatch(update(grow, { tags: { [PUSH]: ["d", "e"] } }))).toEqual([
+        { op: "add", path: "/tags/3", value: "d" },
+        { op: "add", path: "/tags/4", value: "e" },
+      ]);
+      expect(toJSONPatch(update(removeData, { tags: { [SPLICE]: [0, 2] } }))).toEqual([
+        { op: "replace", path: "/tags/0", value: "c" },
+        { op: "remove", path: "/tags/2" },
+        { op: "remove", path: "/tags/1" },
+      ]);
+    });
+
+    it("should treat a length key of an object as a property", () => {
+      const data = { box: { length: 1, width: 2 } };
+
+      const changes = update(data, { box: { length: 2, width: 3 } });
+
+      expect(toJSONPatch(changes)).toEqual([
+        { op: "replace", path: "/box/length", value: 2 },
+        { op: "replace", path: "/box/width", value: 3 },
+      ]);
+    });
+
+    it("should return no operations without changes", () => {
+      expect(toJSONPatch(undefined)).toEqual([]);
+    });
+  });
+
+  describe("fromJSONPatch", () => {
+    it("should convert operations to a statement", () => {
+      const stmt = fromJSONPatch([
+        { op: "replace", path: "/user/age", value: 31 },
+        { op: "add", path: "/settings/language", value: "en" },
+        { op: "remove", path: "/user/nickname" },
+        { op: "add", path: "/tags/-", value: "d" },
+      ]);
+
+      expect(stmt).toEqual({
+        user: { age: [31], nickname: [] },
+        settings: { language: ["en"] },
+        tags: { [PUSH]: ["d"] },
+      });
+    });
+
+    it("should map sequential array removals to original indices", () => {
+      const data = { tags: ["a", "b", "c"] };
+
+      update(
+        data,
+        fromJSONPatch<typeof data>([
+          { op: "remove", path: "/tags/0" },
+          { op: "remove", path: "/tags/0" },
+        ]),
+      );
+
+      expect(data.tags).toEqual(["c"]);
+    });
+
+    it("should merge consecutive inserts", () => {
+      const stmt = fromJSONPatch([
+        { op: "add", path: "/tags/1", value: "x" },
+        { op: "add", path: "/tags/2", value: "y" },
+      ]);
+
+      expect(stmt).toEqual({ tags: { [INSERT]: [1, "x", "y"] } });
+    });
+
+    it("should reject unsupported operations", () => {
+      // Patches from other sources can contain operations the type leaves out
+      expect(() => fromJSONPatch([{ op: "move", from: "/a", path: "/b" } as any])).toThrow(SerializationError);
+      expect(() => fromJSONPatch([{ op: "test", path: "/a", value: 1 } as any])).toThrow(SerializationError);
+      expect(() => fromJSONPatch([{ op: "replace", path: "", value: {} }])).toThrow(SerializationError);
+    });
+
+    it("should reject array operations that can't be expressed in one statement", () => {
+      expect(() =>
+        fromJSONPatch([
+          { op: "add", path: "/tags/-", value: "x" },
+          { op: "replace", path: "/tags/0", value: "y" },
+        ]),
+      ).toThrow("Array operations out of order at path: tags.0");
+      expect(() =>
+        fromJSONPatch([
+          { op: "add", path: "/tags/0", value: "x" },
+          { op: "add", path: "/tags/5", value: "y" },
+        ]),
+      ).toThrow(SerializationError);
+    });
+  });
+
+  describe("round trip", () => {
+    it.each([...updateCases, ...patchCases])("should be faithful for $name", ({ data, statements }) => {
+      const expected = data();
+      const tx = transaction(expected);
+      statements.forEach((statement) => tx.update(statement));
+      const operations = toJSONPatch(tx.commit());
+
+      expect(applyPatch(data(), operations)).toEqual(expected);
+
+      const patched = data();
+      update(patched, fromJSONPatch(operations));
+      expect(patched).toEqual(expected);
+    });
+  });
+});
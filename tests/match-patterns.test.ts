@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  evalPredicate,
+  compilePredicate,
+  configurePatterns,
+  isSafePattern,
+  PatternError,
+  validateSelect,
+  fromJSON,
+  select,
+  ALL,
+  WHERE,
+  MATCH,
+} from "../src/index.js";
+
+describe("MATCH patterns", () => {
+  afterEach(() => {
+    configurePatterns({});
+  });
+
+  describe("inline flags", () => {
+    it("should support (?i) at the start of the pattern", () => {
+      expect(evalPredicate("Fresh ORANGE juice", { [MATCH]: "(?i)orange" })).toBe(true);
+      expect(evalPredicate("Fresh ORANGE juice", { [MATCH]: "orange" })).toBe(false);
+      expect(compilePredicate<string>({ [MATCH]: "(?i)^fresh" })("FRESH")).toBe(true);
+    });
+
+    it("should combine inline flags with /pattern/flags", () => {
+      expect(evalPredicate("a\nB", { [MATCH]: "/(?im)^b$/" })).toBe(true);
+      expect(evalPredicate("A", { [MATCH]: "/(?i)a/i" })).toBe(true);
+    });
+
+    it("should only treat a leading group as flags", () => {
+      expect(evalPredicate("ORANGE", { [MATCH]: "x|(?i)orange" })).toBe(false);
+    });
+  });
+
+  describe("safety check", () => {
+    it.each(["(a+)+$", "(a*)*b", "(\\w*\\s?)*$", "(x{1,5}){2,}", "((ab)*c)+", "(?<word>\\w+)*!", "^(a|aa)+$", "(?:x|y)*z"])(
+      "should reject %s",
+      (pattern) => {
+        expect(isSafePattern(pattern)).toBe(false);
+      },
+    );
+
+    it.each(["^admin", "(ab)+", "\\d+-\\d+", "[(+]+x", "(?:cat|dog)s*", "(a{2})+", "a+?b", "(?=a+)b", "^(cat|dog)$", "a|b+"])(
+      "should accept %s",
+      (pattern) => {
+        expect(isSafePattern(pattern)).toBe(true);
+      },
+    );
+
+    it("should not match with rejected patterns", () => {
+      const value = "a".repeat(40) + "!";
+
+      expect(evalPredicate(value, { [MATCH]: "(a+)+$" })).toBe(false);
+      expect(compilePredicate<string>({ [MATCH]: "(a+)+$" })(value)).toBe(false);
+    });
+
+    it("should reject patterns from JSON statements", () => {
+      const stmt = fromJSON({ "*": { "?": { name: { "~": "/(a|aa)+(b*)*$/i" } } } });
+
+      expect(select([{ name: "aaaa" }], stmt)).toBeUndefined();
+      expect(validateSelect(stmt, [{ name: "" }]).map((error) => error.message)).toEqual([
+        "Unsafe regex: /(a|aa)+(b*)*$/i at path: *.?.name.~",
+      ]);
+    });
+
+    it("should use a custom check", () => {
+      const isSafe = vi.fn((pattern: string) => pattern.length < 5);
+      configurePatterns({ isSafe });
+
+      expect(evalPredicate("abc", { [MATCH]: "/abc/i" })).toBe(true);
+      expect(evalPredicate("abcdef", { [MATCH]: "abcdef" })).toBe(false);
+      expect(isSafe).toHaveBeenCalledWith("abc", "i");
+    });
+
+    it("should be disabled with isSafe: false", () => {
+      configurePatterns({ isSafe: false });
+
+      expect(evalPredicate("aaa", { [MATCH]: "(a+)+$" })).toBe(true);
+    });
+  });
+
+  describe("errors", () => {
+    it("should report rejected patterns to onError", () => {
+      const errors: PatternError[] = [];
+      configurePatterns({ onError: (error) => errors.push(error) });
+
+      evalPredicate("a", { [MATCH]: "[" });
+      evalPredicate("a", { [MATCH]: "(a*)*" });
+      evalPredicate("a", { [MATCH]: 5 as any });
+
+      expect(errors.map((error) => [error.pattern, error.reason])).toEqual([
+        ["[", "invalid"],
+        ["(a*)*", "unsafe"],
+        [5, "invalid"],
+      ]);
+      expect(errors[0]).toBeInstanceOf(PatternError);
+      expect(errors[0].message).toMatch(/^Invalid regex: \[ \(/);
+      expect(errors[1].message).toBe("Unsafe regex: (a*)*");
+    });
+
+    it("should only report errors when testing strings", () => {
+      const onError = vi.fn();
+      configurePatterns({ onError });
+
+      const test = compilePredicate<any>({ [MATCH]: "[" });
+      expect(test(5)).toBe(false);
+      expect(onError).not.toHaveBeenCalled();
+
+      expect(test("[")).toBe(false);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not log to the console", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      expect(evalPredicate("a", { [MATCH]: "[" })).toBe(false);
+      expect(error).not.toHaveBeenCalled();
+      error.mockRestore();
+    });
+  });
+
+  describe("cache", () => {
+    it("should build each pattern once", () => {
+      const isSafe = vi.fn((_pattern: string) => true);
+      configurePatterns({ isSafe });
+
+      select(["apple", "avocado", "banana"], { [ALL]: { [WHERE]: { [MATCH]: "^a" } } });
+      evalPredicate("apricot", { [MATCH]: "^a" });
+
+      expect(isSafe).toHaveBeenCalledTimes(1);
+    });
+
+    it("should drop the least recently used patterns", () => {
+      const isSafe = vi.fn((_pattern: string) => true);
+      configurePatterns({ isSafe, cacheSize: 2 });
+
+      for (const pattern of ["a", "b", "a", "c", "a", "b"]) {
+        evalPredicate("x", { [MATCH]: pattern });
+      }
+
+      expect(isSafe.mock.calls.map(([pattern]) => pattern)).toEqual(["a", "b", "c", "b"]);
+    });
+
+    it("should not keep patterns with cacheSize 0", () => {
+      const isSafe = vi.fn((_pattern: string) => true);
+      configurePatterns({ isSafe, cacheSize: 0 });
+
+      evalPredicate("x", { [MATCH]: "a" });
+      evalPredicate("x", { [MATCH]: "a" });
+
+      expect(isSafe).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reset global regexes between tests", () => {
+      expect(["a", "a", "a"].map((value) => evalPredicate(value, { [MATCH]: "/a/g" }))).toEqual([true, true, true]);
+    });
+  });
+});
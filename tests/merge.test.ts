@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { merge, update, undo, META, PUSH, type Update } from "../src/index.js";
+
+// Records both statements against their own copy of data, as two users editing concurrently would
+function edits<T extends object>(data: T, a: Update<T>, b: Update<T>) {
+  return [update(structuredClone(data), a), update(structuredClone(data), b)] as const;
+}
+
+describe("merge", () => {
+  it("should combine non-overlapping changes", () => {
+    const data: { title: string; user: { name: string; age: number }; settings: Record<string, string> } = {
+      title: "Draft",
+      user: { name: "Alice", age: 30 },
+      settings: { theme: "dark" },
+    };
+    const [a, b] = edits(data, { title: "Final", user: { age: 31 } }, { user: { name: "Bob" }, settings: { language: "en" } });
+
+    const { changes, conflicts } = merge(data, a, b);
+
+    expect(conflicts).toEqual([]);
+    expect(data).toEqual({ title: "Final", user: { name: "Bob", age: 31 }, settings: { theme: "dark", language: "en" } });
+    expect(changes).toEqual({
+      title: "Final",
+      user: { age: 31, name: "Bob", [META]: { age: { original: 30 }, name: { original: "Alice" } } },
+      settings: { language: "en", [META]: { language: { original: undefined } } },
+      [META]: { title: { original: "Draft" } },
+    });
+  });
+
+  it("should return changes that undo reverts", () => {
+    const data: { user: { nickname?: string; profile: { bio: string; city: string } }; tags: string[] } = {
+      user: { nickname: "Ali", profile: { bio: "Dev", city: "Paris" } },
+      tags: ["a", "b", "c"],
+    };
+    const original = structuredClone(data);
+    const [a, b] = edits(data, { user: { nickname: [], profile: { bio: "Ops" } } }, { user: { profile: { city: "Rome" } }, tags: { [PUSH]: ["d"] } });
+
+    const { changes } = merge(data, a, b);
+    expect(data.user.profile).toEqual({ bio: "Ops", city: "Rome" });
+    expect(data.tags).toEqual(["a", "b", "c", "d"]);
+
+    undo(data, changes);
+    expect(data).toEqual(original);
+  });
+
+  it("should apply identical changes once", () => {
+    const data = { user: { name: "Alice", age: 30, profile: { bio: "Dev", city: "Paris" } } };
+    const [a, b] = edits(data, { user: { age: 31, profile: [{ bio: "Ops", city: "Rome" }] } }, { user: { age: 31, profile: [{ bio: "Ops", city: "Rome" }] } });
+
+    const { changes, conflicts } = merge(data, a, b);
+
+    expect(conflicts).toEqual([]);
+    expect(data.user).toEqual({ name: "Alice", age: 31, profile: { bio: "Ops", city: "Rome" } });
+    expect(changes?.user?.[META]).toEqual({ age: { original: 30 }, profile: { original: { bio: "Dev", city: "Paris" } } });
+  });
+
+  it("should report keys changed to different values", () => {
+    const data = { title: "Draft", user: { age: 30 } };
+    const [a, b] = edits(data, { title: "Final", user: { age: 31 } }, { title: "Published", user: { age: 32 } });
+
+    const { changes, conflicts } = merge(data, a, b);
+
+    expect(conflicts).toEqual([
+      { path: ["title"], original: "Draft", a: "Final", b: "Published" },
+      { path: ["user", "age"], original: 30, a: 31, b: 32 },
+    ]);
+    expect(changes).toBeUndefined();
+    expect(data).toEqual({ title: "Draft", user: { age: 30 } });
+  });
+
+  it("should report delete against modify", () => {
+    const data: { user: { nickname?: string } } = { user: { nickname: "Ali" } };
+    const [a, b] = edits(data, { user: { nickname: [] } }, { user: { nickname: "Al" } });
+
+    expect(merge(data, a, b).conflicts).toEqual([{ path: ["user", "nickname"], original: "Ali", a: undefined, b: "Al" }]);
+  });
+
+  it("should report a replaced object against nested changes with both values applied", () => {
+    const data = { user: { profile: { bio: "Dev", city: "Paris" } } };
+    const [a, b] = edits(data, { user: { profile: [{ bio: "Ops", city: "Rome" }] } }, { user: { profile: { city: "Oslo" } } });
+
+    expect(merge(data, a, b).conflicts).toEqual([
+      {
+        path: ["user", "profile"],
+        original: { bio: "Dev", city: "Paris" },
+        a: { bio: "Ops", city: "Rome" },
+        b: { bio: "Dev", city: "Oslo" },
+      },
+    ]);
+  });
+
+  it("should merge arrays whose length changed only as a whole", () => {
+    const data = { tags: ["a", "b", "c"] };
+    const [a, b] = edits(data, { tags: { [PUSH]: ["d"] } }, { tags: { "0": "z" } });
+
+    const { conflicts } = merge(data, a, b);
+
+    expect(conflicts).toEqual([{ path: ["tags"], original: ["a", "b", "c"], a: ["a", "b", "c", "d"], b: ["z", "b", "c"] }]);
+    expect(data.tags).toEqual(["a", "b", "c"]);
+  });
+
+  it("should merge changes to a length key of an object by key", () => {
+    const data = { box: { length: 1, width: 2 } };
+    const a = update(structuredClone(data), { box: { length: 2 } });
+    const b = update(structuredClone(data), { box: { width: 3 } });
+
+    expect(merge(data, a, b).conflicts).toEqual([]);
+    expect(data).toEqual({ box: { length: 2, width: 3 } });
+  });
+
+  it("should merge changes to different indices", () => {
+    const data = { tags: ["a", "b", "c"] };
+    const [a, b] = edits(data, { tags: { "0": "x" } }, { tags: { "2": "z" } });
+
+    expect(merge(data, a, b).conflicts).toEqual([]);
+    expect(data.tags).toEqual(["x", "b", "z"]);
+  });
+
+  describe("strategy", () => {
+    it("should keep the chosen side", () => {
+      const data = { title: "Draft", user: { age: 30 } };
+      const [a, b] = edits(data, { title: "Final", user: { age: 31 } }, { title: "Published", user: { age: 32 } });
+
+      const { changes, conflicts } = merge(data, a, b, (conflict) => (conflict.path[0] === "title" ? "a" : "b"));
+
+      expect(conflicts).toEqual([]);
+      expect(data.title).toBe("Final");
+      expect(data.user.age).toBe(32);
+
+      undo(data, changes);
+      expect(data).toEqual({ title: "Draft", user: { age: 30 } });
+    });
+
+    it("should replace with a value or delete", () => {
+      const data: { user: { name: string; age: number; nickname?: string } } = { user: { name: "Alice", age: 30, nickname: "Ali" } };
+      const [a, b] = edits(data, { user: { age: 31, nickname: "Al" } }, { user: { age: 35, nickname: "Lis" } });
+
+      merge(data, a, b, ({ path, a, b }) => (path[1] === "age" ? [Math.max(a, b)] : []));
+
+      expect(data.user).toEqual({ name: "Alice", age: 35 });
+    });
+
+    it("should keep the chosen side of nested changes", () => {
+      const data = { user: { profile: { bio: "Dev", city: "Paris" } } };
+      const [a, b] = edits(data, { user: { profile: [{ bio: "Ops", city: "Rome" }] } }, { user: { profile: { city: "Oslo" } } });
+
+      merge(data, a, b, () => "b");
+
+      expect(data.user.profile).toEqual({ bio: "Dev", city: "Oslo" });
+    });
+
+    it("should leave conflicts unresolved when it returns undefined", () => {
+      const data = { title: "Draft", user: { age: 30 } };
+      const [a, b] = edits(data, { title: "Final", user: { age: 31 } }, { title: "Published", user: { age: 32 } });
+
+      const { conflicts } = merge(data, a, b, (conflict) => (conflict.path[0] === "title" ? "a" : undefined));
+
+      expect(conflicts.map((conflict) => conflict.path)).toEqual([["user", "age"]]);
+      expect(data.title).toBe("Final");
+      expect(data.user.age).toBe(30);
+    });
+  });
+
+  it("should handle a missing result", () => {
+    const data = { title: "Draft" };
+    const a = update(structuredClone(data), { title: "Final" });
+
+    expect(merge(data, a, undefined).changes).toEqual(a);
+    expect(merge({ title: "Draft" }, undefined, undefined)).toEqual({ changes: undefined, conflicts: [] });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { update, previewUpdate, META, ALL, WHERE, DEFAULT, PUSH, SPLICE, INC, GT } from "../src/index.js";
+import { updateCases, type UpdateCase } from "./update-cases.js";
+
+function deepFreeze<T>(value: T): T {
+  if (value != null && typeof value === "object") {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+// Cases for what update.test.ts predates: operator objects and the array operators
+const previewCases: UpdateCase[] = [
+  {
+    name: "WHERE objects with operators",
+    data: () => ({ items: [{ price: 100, active: true }, { price: 200, active: false }] }),
+    statements: [{ items: { [ALL]: { [WHERE]: { active: true }, price: { [INC]: 1 } } } }],
+  },
+  {
+    name: "array operators",
+    data: () => ({ tags: ["a", "b", "c"], items: [{ id: 1 }, { id: 2 }] }),
+    statements: [{ tags: { [PUSH]: ["d"], "0": [] }, items: { [SPLICE]: [0, 1] } }],
+  },
+];
+
+describe("previewUpdate", () => {
+  it.each([...updateCases, ...previewCases])("should return what update() returns for $name", ({ data, statements }) => {
+    const expected = data();
+
+    for (const statement of statements) {
+      const frozen = deepFreeze(structuredClone(expected));
+      expect(previewUpdate(frozen, statement)).toEqual(update(expected, statement));
+    }
+  });
+
+  it("should keep META originals", () => {
+    const data = {
+      user: { age: 30 },
+      items: [
+        { price: 100, active: true },
+        { price: 300, active: true },
+      ],
+    };
+
+    const preview = previewUpdate(data, { user: { age: 31 }, items: { [ALL]: { [WHERE]: { price: { [GT]: 250 } }, active: false } } });
+
+    expect(preview).toEqual({
+      user: { age: 31, [META]: { age: { original: 30 } } },
+      items: { "1": { active: false, [META]: { active: { original: true } } } },
+    });
+  });
+
+  it("should not share materialized defaults with the data", () => {
+    const data: { user: { profile: { bio: string } | null } } = { user: { profile: null } };
+
+    const preview = previewUpdate(data, { user: { profile: { [DEFAULT]: { bio: "" }, bio: "Dev" } } });
+
+    expect(data.user.profile).toBeNull();
+    expect(preview?.user?.profile).toEqual({ bio: "Dev" });
+  });
+
+  it("should return undefined when nothing would change", () => {
+    const data = { user: { name: "Alice" }, items: [{ price: 100 }] };
+
+    expect(previewUpdate(data, { user: { name: "Alice" }, items: { [ALL]: { [WHERE]: { price: { [GT]: 1000 } }, price: 0 } } })).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import {
+  update,
+  updateImmutable,
+  undo,
+  compileUpdate,
+  validateUpdate,
+  REF,
+  CONTEXT,
+  ALL,
+  WHERE,
+  INC,
+  MUL,
+  MAX,
+  APPEND,
+  META,
+  GT,
+} from "../src/index.js";
+
+type Line = { sku?: string; price?: number; qty?: number; total?: number };
+type Order = {
+  id?: string;
+  label?: string;
+  subtotal?: number;
+  total?: number;
+  lines?: Line[];
+  billing?: { city: string };
+  shipping?: { city: string };
+};
+
+describe("REF", () => {
+  it("should set values from paths of the data", () => {
+    const data: Order = { subtotal: 10, total: 0, lines: [{ sku: "A" }, { sku: "B" }] };
+
+    update(data, { total: { [REF]: "$.subtotal" }, label: { [REF]: ["$", "lines", 1, "sku"] } });
+
+    expect(data.total).toBe(10);
+    expect(data.label).toBe("B");
+  });
+
+  it("should copy referenced objects", () => {
+    const data: Order = { billing: { city: "Oslo" } };
+
+    update(data, { shipping: { [REF]: "$.billing" } });
+
+    expect(data.shipping).toEqual({ city: "Oslo" });
+    expect(data.shipping).not.toBe(data.billing);
+  });
+
+  it("should read from the object being updated with @", () => {
+    const data: Order = { lines: [{ price: 2, qty: 3 }, { price: 4, qty: 1 }] };
+
+    update(data, { lines: { [ALL]: { total: { [REF]: "@.price", [MUL]: { [REF]: "@.qty" } } } } });
+
+    expect(data.lines!.map((line) => line.total)).toEqual([6, 4]);
+  });
+
+  it("should read CONTEXT variables by name", () => {
+    const data: Order = { id: "o-1", subtotal: 10, lines: [{ price: 2 }, { price: 4 }] };
+
+    update(data, {
+      [CONTEXT]: { tax: 1.5, note: { prefix: "#" } },
+      total: { [REF]: "$.subtotal", [MUL]: { [REF]: "tax" } },
+      label: { [REF]: "note.prefix", [APPEND]: { [REF]: "$.id" } },
+      lines: { [CONTEXT]: { tax: 2 }, [ALL]: { price: { [MUL]: { [REF]: "tax" } } } },
+    });
+
+    expect(data.total).toBe(15);
+    expect(data.label).toBe("#o-1");
+    expect(data.lines!.map((line) => line.price)).toEqual([4, 8]);
+  });
+
+  it("should read the data as updated by earlier keys", () => {
+    const data: Order = { subtotal: 10, total: 0 };
+
+    update(data, { subtotal: { [INC]: 5 }, total: { [REF]: "$.subtotal", [MAX]: 20 } });
+
+    expect(data.total).toBe(20);
+    update(data, { subtotal: 30, total: { [REF]: "$.subtotal", [MAX]: 20 } });
+    expect(data.total).toBe(30);
+  });
+
+  it("should read the new version in updateImmutable", () => {
+    const data: Order = { subtotal: 10, lines: [{ price: 2 }] };
+
+    const { data: next } = updateImmutable(data, { subtotal: 12, lines: { "0": { total: { [REF]: "$.subtotal" } } } });
+
+    expect(next.lines![0].total).toBe(12);
+    expect(data).toEqual({ subtotal: 10, lines: [{ price: 2 }] });
+  });
+
+  it("should ignore operands referencing missing values", () => {
+    const data: Order = { subtotal: 10 };
+
+    update(data, { subtotal: { [INC]: { [REF]: "missing" } } });
+
+    expect(data.subtotal).toBe(10);
+  });
+
+  it("should leave keys as they are when the referenced value is missing", () => {
+    const data: Order = { total: 0 };
+
+    const changes = update(data, { label: { [REF]: "$.shipping.city", [APPEND]: "!" }, total: { [REF]: "$.missing.key" } });
+
+    expect(changes).toBeUndefined();
+    expect(data).not.toHaveProperty("label");
+    expect(data.total).toBe(0);
+  });
+
+  it("should apply with WHERE", () => {
+    const data: Order = { lines: [{ price: 2 }, { price: 4 }] };
+
+    update(data, { lines: { [ALL]: { [WHERE]: { price: { [GT]: 3 } }, total: { [REF]: "@.price" } } } });
+
+    expect(data.lines!.map((line) => line.total)).toEqual([undefined, 4]);
+  });
+
+  it("should record changes that undo reverts", () => {
+    const data: Order = { subtotal: 10, total: 0, billing: { city: "Oslo" }, lines: [{ price: 2, qty: 3 }] };
+
+    const changes = update(data, {
+      total: { [REF]: "$.subtotal" },
+      shipping: { [REF]: "$.billing" },
+      lines: { [ALL]: { total: { [REF]: "@.price", [MUL]: { [REF]: "@.qty" } } } },
+    });
+
+    expect(changes).toMatchObject({ total: 10, [META]: { total: { original: 0 }, shipping: { original: undefined } } });
+    undo(data, changes);
+    expect(data).toEqual({ subtotal: 10, total: 0, billing: { city: "Oslo" }, lines: [{ price: 2, qty: 3 }] });
+  });
+
+  it("should give the same results when compiled", () => {
+    const stmt = { [CONTEXT]: { tax: 2 }, total: { [REF]: "$.subtotal", [MUL]: { [REF]: "tax" } } };
+    const run = compileUpdate<Order>(stmt);
+    const data: Order = { subtotal: 10, total: 0 };
+
+    expect(run(data)).toEqual(update<Order>({ subtotal: 10, total: 0 }, stmt));
+    expect(data).toEqual({ subtotal: 10, total: 20 });
+  });
+
+  it("should be validated", () => {
+    const errors = validateUpdate(
+      { id: { [REF]: "" }, total: { [INC]: { [REF]: 1 } }, label: { [APPEND]: { [REF]: ["$", "id"] } }, subtotal: { [REF]: "$.id", [MUL]: 2 } },
+      { id: "o-1", subtotal: 10, total: 0, label: "" },
+    );
+
+    expect(errors.map((error) => error.message)).toEqual([
+      "Reference must be a path at path: id.@ref",
+      "Reference must be a path at path: total.@inc.@ref",
+    ]);
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import {
+  update,
+  updateImmutable,
+  transaction,
+  history,
+  undo,
+  validateUpdate,
+  RENAME,
+  META,
+  ALL,
+  WHERE,
+  APPEND,
+} from "../src/index.js";
+
+type User = {
+  fullname?: string;
+  displayName?: string;
+  address?: { city: string };
+  profile?: { age: number; address?: { city: string } };
+  first?: string;
+  last?: string;
+};
+
+describe("RENAME", () => {
+  it("should move values to new keys", () => {
+    const data: User = { fullname: "Ada Lovelace" };
+
+    update(data, { [RENAME]: { fullname: "displayName" } });
+
+    expect(data).toEqual({ displayName: "Ada Lovelace" });
+    expect(data).not.toHaveProperty("fullname");
+  });
+
+  it("should move values to paths without copying them", () => {
+    const data: User = { address: { city: "London" }, profile: { age: 36 } };
+    const address = data.address;
+
+    update(data, { [RENAME]: { address: ["profile", "address"] } });
+
+    expect(data).toEqual({ profile: { age: 36, address: { city: "London" } } });
+    expect(data.profile!.address).toBe(address);
+  });
+
+  it("should create missing objects along the path", () => {
+    const data: any = { city: "Paris" };
+
+    update(data, { [RENAME]: { city: ["profile", "address", "city"] } });
+
+    expect(data).toEqual({ profile: { address: { city: "Paris" } } });
+  });
+
+  it("should swap keys", () => {
+    const data: User = { first: "Lovelace", last: "Ada" };
+
+    update(data, { [RENAME]: { first: "last", last: "first" } });
+
+    expect(data).toEqual({ first: "Ada", last: "Lovelace" });
+  });
+
+  it("should record the removal and the addition", () => {
+    const data: User = { fullname: "Ada Lovelace", address: { city: "London" }, profile: { age: 36 } };
+
+    const changes = update(data, { [RENAME]: { fullname: "displayName", address: ["profile", "address"] } });
+
+    expect(changes).toEqual({
+      fullname: undefined,
+      address: undefined,
+      displayName: "Ada Lovelace",
+      profile: { address: { city: "London" }, [META]: { address: { original: undefined } } },
+      [META]: {
+        fullname: { original: "Ada Lovelace" },
+        address: { original: { city: "London" } },
+        displayName: { original: undefined },
+      },
+    });
+  });
+
+  it("should record overwritten values", () => {
+    const data: User = { fullname: "Ada Lovelace", displayName: "ada" };
+
+    const changes = update(data, { [RENAME]: { fullname: "displayName" } });
+
+    expect(changes![META]).toEqual({ fullname: { original: "Ada Lovelace" }, displayName: { original: "ada" } });
+  });
+
+  it("should keep the original of moved values when a transaction changes them later", () => {
+    const data: any = { a: { x: 1 } };
+
+    const tx = transaction(data);
+    tx.update({ [RENAME]: { a: "b" } });
+    tx.update({ b: { x: 2 } });
+    tx.revert();
+
+    expect(data).toEqual({ a: { x: 1 } });
+  });
+
+  it("should keep the original of values moved to paths when later changes are grouped", () => {
+    const data: any = { a: { x: 1 } };
+    const h = history(data);
+
+    h.beginGroup();
+    h.update({ [RENAME]: { a: ["p", "q"] } });
+    h.update({ p: { q: { x: 2 } } });
+    h.endGroup();
+    h.undo();
+
+    expect(data).toEqual({ a: { x: 1 } });
+  });
+
+  it("should record the moved value itself as the original", () => {
+    class Point {
+      constructor(public x: number) {}
+    }
+    const point = new Point(1);
+    const callback = () => 1;
+    const data: any = { a: { callback }, point };
+
+    const changes = update(data, { [RENAME]: { a: "b", point: ["moved", "point"] } });
+    update(data, { moved: { point: { x: 2 } } });
+    undo(data, changes);
+
+    expect(data.a.callback).toBe(callback);
+    expect(data.point).toBeInstanceOf(Point);
+    expect(data.point).toBe(point);
+  });
+
+  it("should apply after the other keys, which address the old keys", () => {
+    const data: User = { fullname: "Ada Lovelace", address: { city: "London" }, profile: { age: 36 } };
+
+    const changes = update(data, {
+      fullname: { [APPEND]: "!" },
+      address: { city: "Paris" },
+      [RENAME]: { fullname: "displayName", address: ["profile", "address"] },
+    });
+    expect(data).toEqual({ displayName: "Ada Lovelace!", profile: { age: 36, address: { city: "Paris" } } });
+
+    undo(data, changes);
+    expect(data).toEqual({ fullname: "Ada Lovelace", address: { city: "London" }, profile: { age: 36 } });
+  });
+
+  it("should apply in objects ALL and WHERE select", () => {
+    const data = { users: [{ fullname: "Ada" }, { fullname: "Alan", displayName: "alan" }] };
+
+    update(data, { users: { [ALL]: { [WHERE]: { displayName: undefined }, [RENAME]: { fullname: "displayName" } } } });
+
+    expect(data.users).toEqual([{ displayName: "Ada" }, { fullname: "Alan", displayName: "alan" }]);
+  });
+
+  it("should skip missing keys and keys renamed to themselves", () => {
+    const data: User = { fullname: "Ada Lovelace" };
+
+    const changes = update(data, { [RENAME]: { displayName: "fullname", first: "last", fullname: "fullname" } });
+
+    expect(changes).toBeUndefined();
+    expect(data).toEqual({ fullname: "Ada Lovelace" });
+  });
+
+  it("should leave the input unchanged in updateImmutable", () => {
+    const data: User = { address: { city: "London" }, profile: { age: 36 } };
+
+    const { data: next, changes } = updateImmutable(data, { [RENAME]: { address: ["profile", "address"] } });
+
+    expect(data).toEqual({ address: { city: "London" }, profile: { age: 36 } });
+    expect(next).toEqual({ profile: { age: 36, address: { city: "London" } } });
+    expect(next.profile!.address).toBe(data.address);
+    expect(changes).toEqual({
+      address: undefined,
+      profile: { address: { city: "London" }, [META]: { address: { original: undefined } } },
+      [META]: { address: { original: { city: "London" } } },
+    });
+  });
+
+  it("should throw for paths through non-objects before moving any value", () => {
+    const data: any = { a: 1, b: 2, p: "str" };
+
+    expect(() => update(data, { [RENAME]: { b: "c", a: ["p", "x"] } })).toThrow("Can't rename a to a path through a non-object: p.x");
+    expect(data).toEqual({ a: 1, b: 2, p: "str" });
+  });
+
+  it("should place values at paths through keys renamed away", () => {
+    const data: any = { a: 1, p: "str" };
+
+    update(data, { [RENAME]: { p: "q", a: ["p", "x"] } });
+
+    expect(data).toEqual({ q: "str", p: { x: 1 } });
+  });
+
+  it("should throw for arrays", () => {
+    expect(() => update({ list: [1, 2] }, { list: { [RENAME]: { "0": "1" } } as any })).toThrow(
+      "Can't rename keys of an array",
+    );
+  });
+
+  it("should be validated", () => {
+    const errors = validateUpdate(
+      { [RENAME]: { fullname: 1, missing: "x", address: [] }, profile: { [RENAME]: "age" }, list: { [RENAME]: {} } },
+      { fullname: "Ada Lovelace", address: { city: "London" }, profile: { age: 36 }, list: [1] },
+    );
+
+    expect(errors.map((error) => error.message)).toEqual([
+      "Operand must map keys to keys or paths at path: @rename.fullname",
+      "Unknown key at path: @rename.missing",
+      "Operand must map keys to keys or paths at path: @rename.address",
+      "Operand must map keys to keys or paths at path: profile.@rename",
+      "Can't rename keys of an array at path: list.@rename",
+    ]);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import {
+  select,
+  toJSON,
+  fromJSON,
+  ALL,
+  WHERE,
+  GT,
+  ORDER_BY,
+  LIMIT,
+  GROUP_BY,
+  AGGREGATE,
+  COUNT,
+  SUM,
+  AVG,
+  MIN,
+  MAX,
+  type Select,
+} from "../src/index.js";
+
+type Order = { region: string; total: number };
+
+describe("select aggregations", () => {
+  it("should aggregate all elements", () => {
+    const data = [{ total: 40 }, { total: 10 }, { total: 70 }, { total: 30 }];
+
+    const result = select(data, {
+      [AGGREGATE]: {
+        orders: { [COUNT]: true },
+        revenue: { [SUM]: "total" },
+        average: { [AVG]: "total" },
+        smallest: { [MIN]: "total" },
+        largest: { [MAX]: "total" },
+      },
+    });
+
+    expect(result).toEqual({ orders: 4, revenue: 150, average: 37.5, smallest: 10, largest: 70 });
+  });
+
+  it("should only aggregate elements matching WHERE", () => {
+    const data = [{ total: 40 }, { total: 10 }, { total: 70 }, { total: 30 }];
+
+    const result = select(data, {
+      [ALL]: { [WHERE]: { total: { [GT]: 20 } } },
+      [AGGREGATE]: { orders: { [COUNT]: true }, revenue: { [SUM]: "total" } },
+    });
+
+    expect(result).toEqual({ orders: 3, revenue: 140 });
+  });
+
+  it("should skip missing values and count only present ones", () => {
+    const data: { customer: { name: string; age?: number } }[] = [
+      { customer: { name: "Ann", age: 31 } },
+      { customer: { name: "Bob" } },
+      { customer: { name: "Cid", age: 25 } },
+      { customer: { name: "Ann", age: 31 } },
+    ];
+
+    const result = select(data, {
+      [AGGREGATE]: {
+        withAge: { [COUNT]: ["customer", "age"] },
+        averageAge: { [AVG]: ["customer", "age"] },
+        youngest: { [MIN]: ["customer", "age"] },
+        lastName: { [MAX]: ["customer", "name"] },
+      },
+    });
+
+    expect(result).toEqual({ withAge: 3, averageAge: 29, youngest: 25, lastName: "Cid" });
+  });
+
+  it("should return empty aggregations when nothing matches", () => {
+    const data = [{ total: 40 }, { total: 10 }];
+
+    const result = select(data, {
+      [ALL]: { [WHERE]: { total: { [GT]: 1000 } } },
+      [AGGREGATE]: { orders: { [COUNT]: true }, revenue: { [SUM]: "total" }, average: { [AVG]: "total" } },
+    });
+
+    expect(result).toEqual({ orders: 0, revenue: 0, average: undefined });
+  });
+
+  it("should aggregate primitive elements", () => {
+    const result = select([3, 1, 2], { [AGGREGATE]: { sum: { [SUM]: true }, max: { [MAX]: true } } });
+
+    expect(result).toEqual({ sum: 6, max: 3 });
+  });
+
+  it("should aggregate after paging", () => {
+    const data = [{ total: 40 }, { total: 10 }, { total: 70 }, { total: 30 }];
+
+    const result = select(data, {
+      [ORDER_BY]: { key: "total", desc: true },
+      [LIMIT]: 2,
+      [AGGREGATE]: { topRevenue: { [SUM]: "total" } },
+    });
+
+    expect(result).toEqual({ topRevenue: 110 });
+  });
+
+  it("should aggregate records", () => {
+    const stock: Record<string, { count: number }> = { apples: { count: 3 }, pears: { count: 0 }, plums: { count: 5 } };
+
+    const result = select(stock, {
+      [ALL]: { [WHERE]: { count: { [GT]: 0 } } },
+      [AGGREGATE]: { kinds: { [COUNT]: true }, items: { [SUM]: "count" } },
+    });
+
+    expect(result).toEqual({ kinds: 2, items: 8 });
+  });
+
+  it("should group selected elements", () => {
+    const data = [
+      { id: 1, region: "EU" },
+      { id: 2, region: "US" },
+      { id: 3, region: "EU" },
+      { id: 4, region: "US" },
+    ];
+
+    const result = select(data, { [ALL]: { id: true }, [GROUP_BY]: "region" });
+
+    expect(result).toEqual({
+      EU: [{ id: 1 }, { id: 3 }],
+      US: [{ id: 2 }, { id: 4 }],
+    });
+  });
+
+  it("should aggregate each group", () => {
+    const data = [
+      { total: 40, customer: { name: "Ann" } },
+      { total: 10, customer: { name: "Bob" } },
+      { total: 70, customer: { name: "Cid" } },
+      { total: 30, customer: { name: "Ann" } },
+    ];
+
+    const result = select(data, {
+      [ALL]: { [WHERE]: { total: { [GT]: 20 } } },
+      [GROUP_BY]: ["customer", "name"],
+      [AGGREGATE]: { orders: { [COUNT]: true }, revenue: { [SUM]: "total" } },
+    });
+
+    expect(result).toEqual({
+      Ann: { orders: 2, revenue: 70 },
+      Cid: { orders: 1, revenue: 70 },
+    });
+  });
+
+  it("should group nested arrays", () => {
+    const data = {
+      shop: {
+        orders: [
+          { region: "EU", total: 40 },
+          { region: "US", total: 10 },
+          { region: "EU", total: 70 },
+          { region: "US", total: 30 },
+        ],
+      },
+    };
+
+    const result = select(data, {
+      shop: { orders: { [GROUP_BY]: "region", [AGGREGATE]: { revenue: { [SUM]: "total" } } } },
+    });
+
+    expect(result).toEqual({ shop: { orders: { EU: { revenue: 110 }, US: { revenue: 40 } } } });
+  });
+
+  it("should reject aggregations without an operator", () => {
+    expect(() => select([{ total: 40 }], { [AGGREGATE]: { bad: {} as any } })).toThrow("Can't aggregate without an operator: bad");
+  });
+
+  it("should serialize", () => {
+    const data: Order[] = [
+      { region: "EU", total: 40 },
+      { region: "US", total: 10 },
+      { region: "EU", total: 70 },
+    ];
+    const stmt: Select<Order[]> = {
+      [ALL]: { [WHERE]: { total: { [GT]: 20 } } },
+      [GROUP_BY]: "region",
+      [AGGREGATE]: { revenue: { [SUM]: "total" }, largest: { [MAX]: "total" } },
+    };
+
+    const json = JSON.parse(JSON.stringify(toJSON(stmt)));
+    expect(json).toEqual({
+      "*": { "?": { total: { ">": 20 } } },
+      "@groupBy": "region",
+      "@aggregate": { revenue: { "@sum": "total" }, largest: { "@max": "total" } },
+    });
+
+    expect(select(data, fromJSON(json))).toEqual({ EU: { revenue: 110, largest: 70 } });
+    expect(select(data, stmt)).toEqual({ EU: { revenue: 110, largest: 70 } });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import { select, toJSON, fromJSON, ALL, WHERE, DEEP_ALL, GT, ORDER_BY, LIMIT, OFFSET, type Select } from "../src/index.js";
+
+type Product = { name: string; price: number };
+
+const names = (result: { name?: string }[] | undefined) => result?.map((p) => p.name);
+
+describe("select ORDER_BY, LIMIT and OFFSET", () => {
+  it("should sort by a key ascending with nulls last", () => {
+    const data = [
+      { name: "Desk", price: 300 },
+      { name: "Lamp", price: null },
+      { name: "Chair", price: 100 },
+      { name: "Rug", price: 50 },
+    ];
+
+    const result = select(data, { [ALL]: { name: true }, [ORDER_BY]: "price" });
+
+    expect(names(result)).toEqual(["Rug", "Chair", "Desk", "Lamp"]);
+  });
+
+  it("should sort descending and keep nulls last", () => {
+    const data = [
+      { name: "Desk", price: 300 },
+      { name: "Lamp", price: null },
+      { name: "Chair", price: 100 },
+      { name: "Rug", price: 50 },
+    ];
+
+    const result = select(data, { [ALL]: { name: true }, [ORDER_BY]: { key: "price", desc: true } });
+
+    expect(names(result)).toEqual(["Desk", "Chair", "Rug", "Lamp"]);
+  });
+
+  it("should put nulls first when requested", () => {
+    const data = [
+      { name: "Desk", price: 300 },
+      { name: "Lamp", price: null },
+      { name: "Chair", price: 100 },
+      { name: "Rug", price: 50 },
+    ];
+
+    const result = select(data, { [ALL]: { name: true }, [ORDER_BY]: { key: "price", nulls: "first" } });
+
+    expect(names(result)).toEqual(["Lamp", "Rug", "Chair", "Desk"]);
+  });
+
+  it("should break ties with further keys and paths", () => {
+    const data = [
+      { name: "Desk", stock: { count: 2 } },
+      { name: "Lamp", stock: { count: 8 } },
+      { name: "Rug", stock: { count: 5 } },
+      { name: "Chair", stock: { count: 5 } },
+    ];
+
+    const result = select(data, {
+      [ALL]: { name: true },
+      [ORDER_BY]: [{ key: ["stock", "count"], desc: true }, "name"],
+    });
+
+    expect(names(result)).toEqual(["Lamp", "Chair", "Rug", "Desk"]);
+  });
+
+  it("should sort by keys that are not selected", () => {
+    const data = [
+      { name: "Desk", price: 300 },
+      { name: "Chair", price: 100 },
+      { name: "Rug", price: 50 },
+    ];
+
+    const result = select(data, { [ALL]: { name: true }, [ORDER_BY]: "price", [LIMIT]: 2 });
+
+    expect(result).toEqual([{ name: "Rug" }, { name: "Chair" }]);
+  });
+
+  it("should keep the original order without ORDER_BY", () => {
+    const data = [{ name: "Desk" }, { name: "Lamp" }, { name: "Chair" }, { name: "Shelf" }];
+
+    const result = select(data, { [ALL]: { name: true }, [OFFSET]: 1, [LIMIT]: 2 });
+
+    expect(names(result)).toEqual(["Lamp", "Chair"]);
+  });
+
+  it("should page after WHERE filtering", () => {
+    const data = [
+      { name: "Desk", price: 300 },
+      { name: "Chair", price: 100 },
+      { name: "Shelf", price: 300 },
+      { name: "Rug", price: 50 },
+    ];
+
+    const result = select(data, {
+      [ALL]: { [WHERE]: { price: { [GT]: 60 } }, name: true },
+      [ORDER_BY]: "name",
+      [OFFSET]: 1,
+      [LIMIT]: 10,
+    });
+
+    expect(names(result)).toEqual(["Desk", "Shelf"]);
+  });
+
+  it("should sort whole elements without other selections", () => {
+    expect(select([3, 1, 2], { [ORDER_BY]: {} })).toEqual([1, 2, 3]);
+    expect(select([3, 1, 2], { [ORDER_BY]: { desc: true }, [LIMIT]: 2 })).toEqual([3, 2]);
+  });
+
+  it("should page selected indices", () => {
+    const data = [
+      { name: "Desk", price: 300 },
+      { name: "Lamp", price: 10 },
+      { name: "Chair", price: 100 },
+      { name: "Shelf", price: 20 },
+      { name: "Rug", price: 50 },
+    ];
+
+    const result = select(data, { 0: { name: true }, 2: { name: true }, 4: { name: true }, [ORDER_BY]: "price" });
+
+    expect(names(result)).toEqual(["Rug", "Chair", "Desk"]);
+  });
+
+  it("should apply at nested array levels", () => {
+    const data = { shop: { products: [{ name: "Desk" }, { name: "Chair" }, { name: "Lamp" }] } };
+
+    const result = select(data, { shop: { products: { [ALL]: { name: true }, [ORDER_BY]: "name", [LIMIT]: 1 } } });
+
+    expect(result).toEqual({ shop: { products: [{ name: "Chair" }] } });
+  });
+
+  it("should apply to every array of a DEEP_ALL result", () => {
+    const catalog = {
+      categories: [
+        {
+          products: [
+            { name: "A", price: 150 },
+            { name: "B", price: 500 },
+            { name: "C", price: 200 },
+          ],
+        },
+        { products: [{ name: "D", price: 120 }] },
+      ],
+    };
+
+    const result = select(catalog, {
+      [DEEP_ALL]: { [WHERE]: { price: { [GT]: 100 } }, [ORDER_BY]: { key: "price", desc: true }, [LIMIT]: 2 },
+    });
+
+    expect(result).toEqual({
+      categories: [
+        {
+          products: [
+            { name: "B", price: 500 },
+            { name: "C", price: 200 },
+          ],
+        },
+        { products: [{ name: "D", price: 120 }] },
+      ],
+    });
+  });
+
+  it("should apply to arrays a DEEP_ALL projection selects", () => {
+    const data = {
+      list: [{ p: 3 }, { p: 1 }, { p: 2 }],
+      nested: { list: [{ p: 5 }, { p: 4 }] },
+    };
+
+    const result = select(data, { [DEEP_ALL]: { list: true, [ORDER_BY]: "p", [LIMIT]: 1 } });
+
+    expect(result).toEqual({ list: [{ p: 1 }], nested: { list: [{ p: 4 }] } });
+  });
+
+  it("should serialize", () => {
+    const data: Product[] = [
+      { name: "Desk", price: 300 },
+      { name: "Chair", price: 100 },
+      { name: "Rug", price: 50 },
+    ];
+    const stmt: Select<Product[]> = { [ALL]: { name: true }, [ORDER_BY]: [{ key: "price", desc: true }], [OFFSET]: 1, [LIMIT]: 2 };
+
+    const json = JSON.parse(JSON.stringify(toJSON(stmt)));
+    expect(json).toEqual({ "*": { name: true }, "@orderBy": [{ key: "price", desc: true }], "@offset": 1, "@limit": 2 });
+
+    expect(select(data, fromJSON(json))).toEqual([{ name: "Chair" }, { name: "Rug" }]);
+    expect(select(data, stmt)).toEqual([{ name: "Chair" }, { name: "Rug" }]);
+  });
+});
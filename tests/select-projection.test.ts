@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { select, toJSON, fromJSON, AS, ALL, WHERE, GT } from "../src/index.js";
+
+type User = {
+  id: number;
+  first: string;
+  last: string;
+  profile: { email: string; address?: { city: string } };
+  tags: string[];
+};
+
+describe("select projections", () => {
+  it("should rename keys", () => {
+    const alice = { id: 1, first: "Alice", last: "Smith" };
+
+    const result = select(alice, { id: true, [AS]: { name: "first" } });
+
+    expect(result).toEqual({ id: 1, name: "Alice" });
+  });
+
+  it("should flatten nested paths", () => {
+    const alice: User = {
+      id: 1,
+      first: "Alice",
+      last: "Smith",
+      profile: { email: "alice@example.com", address: { city: "NYC" } },
+      tags: ["admin"],
+    };
+
+    const result = select(alice, { [AS]: { email: ["profile", "email"], city: ["profile", "address", "city"], tag: ["tags", 0] } });
+
+    expect(result).toEqual({ email: "alice@example.com", city: "NYC", tag: "admin" });
+  });
+
+  it("should omit projections that resolve to undefined", () => {
+    const bob: User = { id: 2, first: "Bob", last: "Jones", profile: { email: "bob@example.com" }, tags: [] };
+
+    const result = select(bob, { id: true, [AS]: { city: ["profile", "address", "city"], tag: ["tags", 0] } });
+
+    expect(result).toEqual({ id: 2 });
+    expect(result).not.toHaveProperty("city");
+  });
+
+  it("should compute fields from the selected object", () => {
+    const alice = { first: "Alice", last: "Smith" };
+
+    const result = select(alice, { [AS]: { fullName: (user) => `${user.first} ${user.last}` } });
+
+    expect(result).toEqual({ fullName: "Alice Smith" });
+  });
+
+  it("should project each element with ALL", () => {
+    const data = [
+      { id: 1, profile: { email: "alice@example.com" }, tags: ["admin"] },
+      { id: 2, profile: { email: "bob@example.com" }, tags: [] },
+    ];
+
+    const result = select(data, {
+      [ALL]: { id: true, [AS]: { email: ["profile", "email"], tagCount: (user) => user.tags.length } },
+    });
+
+    expect(result).toEqual([
+      { id: 1, email: "alice@example.com", tagCount: 1 },
+      { id: 2, email: "bob@example.com", tagCount: 0 },
+    ]);
+  });
+
+  it("should only project elements matching WHERE", () => {
+    const data = [
+      { id: 1, first: "Alice" },
+      { id: 2, first: "Bob" },
+    ];
+
+    const result = select(data, { [ALL]: { [WHERE]: { id: { [GT]: 1 } }, [AS]: { name: "first" } } });
+
+    expect(result).toEqual([{ name: "Bob" }]);
+  });
+
+  it("should project nested objects", () => {
+    const data = { owner: { id: 1, profile: { address: { city: "NYC" } } } };
+
+    const result = select(data, { owner: { [AS]: { city: ["profile", "address", "city"] } } });
+
+    expect(result).toEqual({ owner: { city: "NYC" } });
+  });
+
+  it("should let projected keys override selected keys", () => {
+    const alice = { first: "Alice", last: "Smith" };
+
+    const result = select(alice, { first: true, [AS]: { first: "last" } });
+
+    expect(result).toEqual({ first: "Smith" });
+  });
+
+  it("should serialize key and path projections", () => {
+    const stmt = { [AS]: { name: "first", city: ["profile", "address", "city"] } };
+
+    const json = JSON.parse(JSON.stringify(toJSON(stmt)));
+    expect(json).toEqual({ "@as": { name: "first", city: ["profile", "address", "city"] } });
+
+    const alice = { first: "Alice", profile: { address: { city: "NYC" } } };
+    expect(select(alice, fromJSON(json))).toEqual({ name: "Alice", city: "NYC" });
+  });
+});
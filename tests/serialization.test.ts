@@ -2,7 +2,7 @@ import { describe, it, expect } from "vitest";
 import { 
   toJSON, fromJSON, SerializationError, validateNoFunctions,
   ALL, WHERE, DEFAULT, CONTEXT, META,
-  LT, GT, LTE, GTE, EQ, NEQ, NOT, MATCH, SOME
+  LT, GT, LTE, GTE, EQ, NEQ, NOT, MATCH, SOME, LOOKUP, BY_KEY, ADD_TO_SET, PULL, UPSERT, RENAME, REF, MUL
 } from "../src/index.js";
 
 describe("serialization", () => {
@@ -261,6 +261,39 @@ describe("serialization", () => {
       
       expect(restored).toEqual(original);
     });
+
+    // One statement per operator, with the JSON toJSON() writes for it
+    it.each([
+      [
+        "LOOKUP",
+        ["groups", "coffee", "items", { [LOOKUP]: ["items"], [WHERE]: { price: { [GT]: 3 } }, name: true }],
+        ["groups", "coffee", "items", { "@lookup": ["items"], "?": { price: { ">": 3 } }, name: true }],
+      ],
+      ["BY_KEY", { lines: { [BY_KEY]: "sku", "sku-42": { qty: 3 } } }, { lines: { "@byKey": "sku", "sku-42": { qty: 3 } } }],
+      [
+        "ADD_TO_SET and PULL",
+        { tags: { [PULL]: { [MATCH]: "^a" }, [ADD_TO_SET]: ["b"] } },
+        { tags: { "@pull": { "~": "^a" }, "@addToSet": ["b"] } },
+      ],
+      [
+        "UPSERT",
+        { [UPSERT]: true, settings: { profiles: { p1: { font: 1 } } } },
+        { "@upsert": true, settings: { profiles: { p1: { font: 1 } } } },
+      ],
+      [
+        "RENAME",
+        { [RENAME]: { fullname: "displayName", address: ["profile", "address"] } },
+        { "@rename": { fullname: "displayName", address: ["profile", "address"] } },
+      ],
+      [
+        "REF",
+        { total: { [REF]: "$.subtotal", [MUL]: { [REF]: "tax" } } },
+        { total: { "@ref": "$.subtotal", "@mul": { "@ref": "tax" } } },
+      ],
+    ])("should round-trip %s", (_, original, json) => {
+      expect(toJSON(original)).toEqual(json);
+      expect(fromJSON(JSON.parse(JSON.stringify(json)))).toEqual(original);
+    });
   });
 
   describe("validateNoFunctions", () => {
@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import {
+  update,
+  updateImmutable,
+  compileUpdate,
+  validateUpdate,
+  META,
+  ARRAY,
+  ALL,
+  PUSH,
+  ADD_TO_SET,
+  PULL,
+  GT,
+  MATCH,
+  NOT,
+} from "../src/index.js";
+
+describe("set operators", () => {
+  describe("ADD_TO_SET", () => {
+    it("should append elements that are missing", () => {
+      const data = { roles: ["admin", "editor"] };
+
+      const changes = update(data, { roles: { [ADD_TO_SET]: ["editor", "viewer"] } });
+
+      expect(data.roles).toEqual(["admin", "editor", "viewer"]);
+      expect(changes).toEqual({
+        roles: {
+          "2": "viewer",
+          length: 3,
+          [ARRAY]: true,
+          [META]: { "2": { original: undefined }, length: { original: 2 } },
+        },
+      });
+    });
+
+    it("should add repeated elements once", () => {
+      const data = { tags: [] as string[] };
+
+      update(data, { tags: { [ADD_TO_SET]: ["a", "b", "a"] } });
+
+      expect(data.tags).toEqual(["a", "b"]);
+    });
+
+    it("should compare objects by value", () => {
+      const data = { flags: [{ name: "beta", on: true }] };
+
+      update(data, { flags: { [ADD_TO_SET]: [{ name: "beta", on: true }, { name: "beta", on: false }] } });
+
+      expect(data.flags).toEqual([
+        { name: "beta", on: true },
+        { name: "beta", on: false },
+      ]);
+    });
+
+    it("should return no changes when every element is present", () => {
+      const data = { tags: ["a", "b"] };
+
+      expect(update(data, { tags: { [ADD_TO_SET]: ["b", "a"] } })).toBeUndefined();
+    });
+
+    it("should run after PUSH", () => {
+      const data = { tags: ["a"] };
+
+      update(data, { tags: { [PUSH]: ["b"], [ADD_TO_SET]: ["b", "c"] } });
+
+      expect(data.tags).toEqual(["a", "b", "c"]);
+    });
+
+    it("should clone added objects", () => {
+      const item = { id: 1 };
+      const data = { items: [] as { id: number }[] };
+
+      update(data, { items: { [ADD_TO_SET]: [item] } });
+
+      expect(data.items[0]).toEqual(item);
+      expect(data.items[0]).not.toBe(item);
+    });
+  });
+
+  describe("PULL", () => {
+    it("should remove all occurrences of a value", () => {
+      const data = { tags: ["a", "b", "a", "c"] };
+
+      const changes = update(data, { tags: { [PULL]: "a" } });
+
+      expect(data.tags).toEqual(["b", "c"]);
+      expect(changes).toEqual({
+        tags: {
+          "0": "b",
+          "1": "c",
+          "2": undefined,
+          "3": undefined,
+          length: 2,
+          [ARRAY]: true,
+          [META]: {
+            "0": { original: "a" },
+            "1": { original: "b" },
+            "2": { original: "a" },
+            "3": { original: "c" },
+            length: { original: 4 },
+          },
+        },
+      });
+    });
+
+    it("should remove elements matching a predicate", () => {
+      const data = {
+        users: [
+          { name: "ann", age: 30 },
+          { name: "bob", age: 17 },
+          { name: "cid", age: 15 },
+        ],
+      };
+
+      update(data, { users: { [PULL]: { age: { [NOT]: { [GT]: 18 } } } } });
+
+      expect(data.users.map((user) => user.name)).toEqual(["ann"]);
+    });
+
+    it("should treat arrays as OR of predicates", () => {
+      const data = { tags: ["a", "b", "c", "d"] };
+
+      update(data, { tags: { [PULL]: ["a", { [MATCH]: "^c" }] } });
+
+      expect(data.tags).toEqual(["b", "d"]);
+    });
+
+    it("should return no changes when nothing matches", () => {
+      expect(update({ tags: ["a"] }, { tags: { [PULL]: "b" } })).toBeUndefined();
+    });
+
+    it("should run before ADD_TO_SET", () => {
+      const data = { tags: ["a", "b"] };
+
+      update(data, { tags: { [PULL]: "a", [ADD_TO_SET]: ["a"] } });
+
+      expect(data.tags).toEqual(["b", "a"]);
+    });
+
+    it("should apply to every array with ALL", () => {
+      const data = { groups: { x: { members: ["ann", "bob"] }, y: { members: ["bob"] } } };
+
+      update(data, { groups: { [ALL]: { members: { [PULL]: "bob" } } } });
+
+      expect(data.groups).toEqual({ x: { members: ["ann"] }, y: { members: [] } });
+    });
+
+    it("should throw on non-arrays", () => {
+      expect(() => update({ tags: { a: 1 } }, { tags: { [PULL]: 1 } as any })).toThrow(
+        "Can't apply array operators to a non-array",
+      );
+    });
+  });
+
+  it("should leave the input unchanged in updateImmutable", () => {
+    const stmt = { roles: { [PULL]: { [MATCH]: "^temp" }, [ADD_TO_SET]: ["viewer", "admin"] } };
+    const data = { roles: ["temp-1", "admin", "temp-2", "editor"] };
+
+    const { data: next, changes } = updateImmutable(data, stmt);
+
+    expect(data).toEqual({ roles: ["temp-1", "admin", "temp-2", "editor"] });
+    expect(next.roles).toEqual(["admin", "editor", "viewer"]);
+    expect(changes).toEqual(update(structuredClone(data), stmt));
+  });
+
+  it("should compile PULL predicates", () => {
+    const run = compileUpdate<{ tags: string[] }>({ tags: { [PULL]: [{ [MATCH]: "/^x/i" }, "y"] } });
+    const data = { tags: ["X1", "a", "y", "x2"] };
+
+    expect(run(data)).toEqual(update({ tags: ["X1", "a", "y", "x2"] }, { tags: { [PULL]: [{ [MATCH]: "/^x/i" }, "y"] } }));
+    expect(data.tags).toEqual(["a"]);
+  });
+
+  it("should be validated", () => {
+    const errors = validateUpdate({ tags: { [PULL]: { length: 1 }, [ADD_TO_SET]: "a" }, name: { [PULL]: "a" } }, {
+      tags: ["a"],
+      name: "x",
+    });
+
+    expect(errors.map((error) => error.message)).toEqual([
+      "Operand must be an array at path: tags.@addToSet",
+      "Unknown key at path: tags.@pull.length",
+      "Can't partially update a non-object at path: name",
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from "vitest";
+import { createStore, anyChange, typeChange, ALL, INC, META } from "../src/index.js";
+
+describe("createStore", () => {
+  it("should update data in place and return the changes", () => {
+    const store = createStore({ user: { name: "Alice", age: 30 } });
+
+    const changes = store.update({ user: { age: 31 } });
+
+    expect(store.data.user.age).toBe(31);
+    expect(changes).toEqual({ user: { age: 31, [META]: { age: { original: 30 } } } });
+  });
+
+  it("should only call listeners whose detector matches", () => {
+    const store = createStore({ user: { name: "Alice", age: 30 }, cart: { total: 10 } });
+    const onUser = vi.fn();
+    const onCart = vi.fn();
+
+    store.subscribe({ user: { name: anyChange } }, onUser);
+    store.subscribe({ cart: { total: anyChange } }, onCart);
+
+    store.update({ user: { name: "Bob" } });
+
+    expect(onUser).toHaveBeenCalledTimes(1);
+    expect(onUser).toHaveBeenCalledWith({ user: { name: "Bob", [META]: { name: { original: "Alice" } } } }, store.data);
+    expect(onCart).not.toHaveBeenCalled();
+  });
+
+  it("should not notify when nothing changed", () => {
+    const store = createStore({ user: { name: "Alice", age: 30 } });
+    const listener = vi.fn();
+    store.subscribe({ user: anyChange }, listener);
+
+    store.update({ user: { name: "Alice" } });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should support ALL and custom detectors", () => {
+    const data: { cart: { items: { id: number; qty: number }[] }; theme: string | null } = {
+      cart: { items: [{ id: 1, qty: 1 }] },
+      theme: "dark",
+    };
+    const store = createStore(data);
+    const onItems = vi.fn();
+    const onTheme = vi.fn();
+
+    store.subscribe({ cart: { items: { [ALL]: { qty: anyChange } } } }, onItems);
+    store.subscribe({ theme: typeChange }, onTheme);
+
+    store.update({ cart: { items: { "0": { qty: { [INC]: 1 } } } } });
+    store.update({ theme: "light" });
+    expect(onItems).toHaveBeenCalledTimes(1);
+    expect(onTheme).not.toHaveBeenCalled();
+
+    store.update({ theme: null });
+    expect(onTheme).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop notifying after unsubscribe", () => {
+    const store = createStore({ user: { name: "Alice", age: 30 } });
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe({ user: anyChange }, listener);
+
+    unsubscribe();
+    store.update({ user: { age: 40 } });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should notify once per committed transaction", () => {
+    const store = createStore({ cart: { total: 10 } });
+    const listener = vi.fn();
+    store.subscribe({ cart: { total: anyChange } }, listener);
+
+    const tx = store.transaction();
+    tx.update({ cart: { total: 20 } }).update({ cart: { total: 30 } });
+    expect(listener).not.toHaveBeenCalled();
+
+    tx.commit();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].cart[META].total).toEqual({ original: 10 });
+  });
+
+  it("should not notify for reverted transactions", () => {
+    const store = createStore({ user: { name: "Alice", age: 30 } });
+    const listener = vi.fn();
+    store.subscribe({ user: anyChange }, listener);
+
+    const tx = store.transaction();
+    tx.update({ user: { age: 99 } });
+    tx.revert();
+
+    expect(store.data.user.age).toBe(30);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should batch updates into one notification", () => {
+    const store = createStore({ user: { name: "Alice", age: 30 } });
+    const listener = vi.fn();
+    store.subscribe({ user: { name: anyChange, age: anyChange } }, listener);
+
+    store.batch(() => {
+      store.update({ user: { name: "Bob" } });
+      store.update({ user: { age: 31 } });
+      store.batch(() => store.update({ user: { age: 32 } }));
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toEqual({
+      user: {
+        name: "Bob",
+        age: 32,
+        [META]: { name: { original: "Alice" }, age: { original: 30 } },
+      },
+    });
+  });
+
+  it("should not notify batches that changed values back", () => {
+    const store = createStore({ user: { name: "Alice", age: 30 } });
+    const listener = vi.fn();
+    store.subscribe({ user: { age: anyChange } }, listener);
+
+    store.batch(() => {
+      store.update({ user: { age: 31 } });
+      store.update({ user: { age: 30 } });
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should allow unsubscribing from a listener", () => {
+    const store = createStore({ user: { name: "Alice", age: 30 } });
+    const second = vi.fn();
+    const unsubscribeSecond = store.subscribe({ user: anyChange }, second);
+    store.subscribe({ user: anyChange }, () => unsubscribeSecond());
+
+    store.update({ user: { age: 1 } });
+    store.update({ user: { age: 2 } });
+
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { transform, LOOKUP, WHERE, DEFAULT } from "../src/index.js";
+
+type MenuItem = { id: string; name: string; price: number; available: boolean };
+
+type Menu = {
+  groups: Record<string, { id: string; name: string; items: string[]; featured?: string }>;
+  items: Record<string, MenuItem>;
+};
+
+const menu: Menu = {
+  groups: {
+    coffee: { id: "coffee", name: "Coffee", items: ["latte", "espresso", "mocha"], featured: "latte" },
+    tea: { id: "tea", name: "Tea", items: ["chai"], featured: "matcha" },
+  },
+  items: {
+    latte: { id: "latte", name: "Latte", price: 4, available: true },
+    espresso: { id: "espresso", name: "Espresso", price: 3, available: false },
+    chai: { id: "chai", name: "Chai", price: 4.5, available: true },
+  },
+};
+
+describe("LOOKUP transform", () => {
+  it("should resolve an array of ids", () => {
+    expect(transform(menu, ["groups", "coffee", "items", { [LOOKUP]: "items" }])).toEqual([
+      menu.items.latte,
+      menu.items.espresso,
+    ]);
+  });
+
+  it("should resolve a single id", () => {
+    expect(transform(menu, ["groups", "coffee", "featured", { [LOOKUP]: "items" }])).toEqual(menu.items.latte);
+  });
+
+  it("should project the joined objects", () => {
+    expect(transform(menu, ["groups", "coffee", "items", { [LOOKUP]: "items", name: true, price: true }])).toEqual([
+      { name: "Latte", price: 4 },
+      { name: "Espresso", price: 3 },
+    ]);
+  });
+
+  it("should filter the joined objects with WHERE", () => {
+    expect(
+      transform(menu, ["groups", "coffee", "items", { [LOOKUP]: "items", [WHERE]: { available: true }, name: true }]),
+    ).toEqual([{ name: "Latte" }]);
+  });
+
+  it("should join inside select transforms and over every element", () => {
+    expect(
+      transform(menu, {
+        groups: { coffee: { name: true, items: { [LOOKUP]: "items", name: true } } },
+      }),
+    ).toEqual({ groups: { coffee: { name: "Coffee", items: [{ name: "Latte" }, { name: "Espresso" }] } } });
+
+    const data = { ...menu, list: Object.values(menu.groups) };
+    expect(transform(data, ["list", { name: true, items: { [LOOKUP]: ["items"], name: true } }]).map((g) => g.items)).toEqual([
+      [{ name: "Latte" }, { name: "Espresso" }],
+      [{ name: "Chai" }],
+    ]);
+  });
+
+  describe("missing ids", () => {
+    it("should drop missing ids from arrays", () => {
+      expect(transform(menu, ["groups", "coffee", "items", { [LOOKUP]: "items", name: true }])).toHaveLength(2);
+    });
+
+    it("should return undefined for a missing single id", () => {
+      expect(transform(menu, ["groups", "tea", "featured", { [LOOKUP]: "items" }])).toBeUndefined();
+      expect(transform(menu, ["groups", "tea", { [LOOKUP]: "items" }])).toBeUndefined();
+    });
+
+    it("should replace missing ids with DEFAULT", () => {
+      expect(transform(menu, ["groups", "coffee", "items", { [LOOKUP]: "items", [DEFAULT]: null, name: true }])).toEqual([
+        { name: "Latte" },
+        { name: "Espresso" },
+        undefined,
+      ]);
+      expect(transform(menu, ["groups", "tea", "featured", { [LOOKUP]: "items", [DEFAULT]: "unknown" }])).toBe("unknown");
+    });
+
+    it("should not resolve inherited keys", () => {
+      expect(transform({ ids: ["constructor", "toString"], items: {} }, ["ids", { [LOOKUP]: "items" }])).toEqual([]);
+    });
+
+    it("should return nothing when the record doesn't exist", () => {
+      expect(transform(menu, ["groups", "coffee", "items", { [LOOKUP]: "products" }])).toEqual([]);
+    });
+  });
+
+  it("should resolve indices against arrays", () => {
+    const data = { order: [2, 0, 5], colors: ["red", "green", "blue"] };
+
+    expect(transform(data, ["order", { [LOOKUP]: "colors" }])).toEqual(["blue", "red"]);
+  });
+});
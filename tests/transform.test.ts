@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { transform } from '../src/transform.js';
+import { transform, toJSON, fromJSON, WHERE, GT, MATCH } from '../src/index.js';
 
 describe('transform functionality', () => {
   describe('AccessTransform - basic property access', () => {
@@ -410,4 +410,52 @@ describe('transform functionality', () => {
       });
     });
   });
+
+  describe('WHERE filtering', () => {
+    const data = {
+      items: [
+        { name: 'latte', price: 4, tags: ['hot'] },
+        { name: 'cold brew', price: 5, tags: ['cold'] },
+        { name: 'espresso', price: 3, tags: ['hot'] }
+      ],
+      owner: { name: 'alice', active: false }
+    };
+
+    it('should filter array elements while reshaping them', () => {
+      expect(transform(data, ['items', { [WHERE]: { price: { [GT]: 3 } }, name: true }])).toEqual([
+        { name: 'latte' },
+        { name: 'cold brew' }
+      ]);
+    });
+
+    it('should keep matching elements whole without other keys', () => {
+      expect(transform(data, ['items', { [WHERE]: (item: any) => item.tags.includes('hot') }, 'name'])).toEqual([
+        'latte',
+        'espresso'
+      ]);
+    });
+
+    it('should return undefined for objects that do not match', () => {
+      expect(transform(data, ['owner', { [WHERE]: { active: true }, name: true }])).toBeUndefined();
+      expect(transform(data, ['owner', { [WHERE]: { active: false }, name: true }])).toEqual({ name: 'alice' });
+    });
+
+    it('should drop nested keys that do not match', () => {
+      expect(transform(data, {
+        owner: { [WHERE]: { active: true }, name: true },
+        first: ['items', 0, 'name', { [WHERE]: { [MATCH]: '^l' } }]
+      })).toEqual({ first: 'latte' });
+    });
+  });
+
+  describe('serialization', () => {
+    it('should round-trip statements through JSON', () => {
+      const stmt = ['items', { [WHERE]: { price: { [GT]: 3 } }, name: true, first: ['tags', 0] }];
+      const json = toJSON(stmt);
+
+      expect(json).toEqual(['items', { '?': { price: { '>': 3 } }, name: true, first: ['tags', 0] }]);
+      expect(transform({ items: [{ name: 'a', price: 4, tags: ['x'] }, { name: 'b', price: 1, tags: [] }] }, fromJSON(JSON.parse(JSON.stringify(json)))))
+        .toEqual([{ name: 'a', first: 'x' }]);
+    });
+  });
 });
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { Update, UpdateResult, META } from "../src/index.js";
+import { Update, UpdateResult, Reference, META } from "../src/index.js";
 
 // Type assertion utilities
 type Expect<T extends true> = T;
@@ -16,13 +16,22 @@ type IsAssignable<T, U> = T extends U ? true : false;
 
 // Pure primitive types should allow direct assignment
 type PrimitiveString = Update<string>;
-type TestPrimitiveString = Expect<Equal<PrimitiveString, string>>;
+type TestPrimitiveString = Expect<IsAssignable<string, PrimitiveString>>;
 
 type PrimitiveNumber = Update<number>;
-type TestPrimitiveNumber = Expect<Equal<PrimitiveNumber, number>>;
+type TestPrimitiveNumber = Expect<IsAssignable<number, PrimitiveNumber>>;
+
+// Numbers and strings also accept value operators
+import { INC, MUL, MIN, MAX, APPEND } from "../src/index.js";
+type TestNumberOperators = Expect<IsAssignable<{ [INC]: number; [MAX]: number }, PrimitiveNumber>>;
+type TestNumberMulMin = Expect<IsAssignable<{ [MUL]: number; [MIN]: number }, PrimitiveNumber>>;
+type TestStringAppend = Expect<IsAssignable<{ [APPEND]: string }, PrimitiveString>>;
+type TestNoAppendOnNumber = Expect<NotEqual<IsAssignable<{ [APPEND]: string }, PrimitiveNumber>, true>>;
+type TestNoIncOnString = Expect<NotEqual<IsAssignable<{ [INC]: number }, PrimitiveString>, true>>;
+type TestNoAppendOnLiterals = Expect<NotEqual<IsAssignable<{ [APPEND]: string }, Update<"light" | "dark">>, true>>;
 
 type PrimitiveBoolean = Update<boolean>;
-type TestPrimitiveBoolean = Expect<Equal<PrimitiveBoolean, boolean>>;
+type TestPrimitiveBoolean = Expect<Equal<PrimitiveBoolean, boolean | Reference>>;
 
 // ============================================
 // UpdateTerminal Tests - Function Types
@@ -251,4 +260,206 @@ type TestAnyBracketed = Expect<IsAssignable<[{ x: 1 }], AnyUpdate>>;
 type UnknownUpdate = Update<unknown>;
 // Unknown is treated as potentially an object, so both forms should work
 type TestUnknownDirect = Expect<IsAssignable<"test", UnknownUpdate>>;
-type TestUnknownBracketed = Expect<IsAssignable<[{ x: 1 }], UnknownUpdate>>;
\ No newline at end of file
+type TestUnknownBracketed = Expect<IsAssignable<[{ x: 1 }], UnknownUpdate>>;
+// ============================================
+// SelectResult Tests - Projections
+// ============================================
+
+import { select, AS } from "../src/index.js";
+
+type Person = { id: number; first: string; last: string; profile: { address?: { city: string } } };
+declare const person: Person;
+declare const people: Person[];
+
+// Selected keys keep their types, projected keys take the path or function result type
+const projected = select(person, {
+  id: true,
+  [AS]: { name: "first", city: ["profile", "address", "city"], full: (p) => p.first.length + p.last.length },
+});
+type TestProjected = Expect<
+  Equal<
+    NonNullable<typeof projected>,
+    { id?: number } & { name?: string; city?: string | undefined; full?: number }
+  >
+>;
+
+// Projections apply to each element with ALL
+const projectedAll = select(people, { [ALL]: { [AS]: { name: "first" } } });
+type TestProjectedAll = Expect<Equal<NonNullable<typeof projectedAll>[number]["name"], string | undefined>>;
+
+// Unselected keys are not in the result
+type TestNotSelected = Expect<NotEqual<"last" extends keyof NonNullable<typeof projected> ? true : false, true>>;
+
+// Paths must exist
+// @ts-expect-error unknown path
+select(person, { [AS]: { zip: ["profile", "zip"] } });
+
+// Compiled statements are typed like select() by the statement type, without it like a select of any keys
+import { compileSelect } from "../src/index.js";
+const personStmt = { id: true, [AS]: { name: "first" } } as const;
+const compiledProjection = compileSelect<Person, typeof personStmt>(personStmt)(person);
+type TestCompiledProjection = Expect<Equal<typeof compiledProjection, ReturnType<typeof select<Person, typeof personStmt>>>>;
+const compiledPartial = compileSelect<Person>({ id: true })(person);
+type TestCompiledPartial = Expect<Equal<NonNullable<typeof compiledPartial>["first"], string | undefined>>;
+
+// ============================================
+// SelectResult Tests - Aggregations
+// ============================================
+
+import { GROUP_BY, AGGREGATE, COUNT, SUM, AVG } from "../src/index.js";
+
+const aggregated = select(people, {
+  [AGGREGATE]: { count: { [COUNT]: true }, total: { [SUM]: "id" }, average: { [AVG]: "id" }, lowest: { [MIN]: "first" } },
+});
+type TestAggregated = Expect<
+  Equal<
+    { [K in keyof NonNullable<typeof aggregated>]: NonNullable<typeof aggregated>[K] },
+    { count: number; total: number; average: number | undefined; lowest: string | undefined }
+  >
+>;
+
+// GROUP_BY buckets the selected elements, or their aggregations
+const grouped = select(people, { [ALL]: { id: true }, [GROUP_BY]: "last" });
+type TestGrouped = Expect<Equal<NonNullable<typeof grouped>, Record<string, { id?: number }[]>>>;
+
+const groupedAggregates = select(people, { [GROUP_BY]: "last", [AGGREGATE]: { count: { [COUNT]: true } } });
+type TestGroupedAggregates = Expect<Equal<NonNullable<typeof groupedAggregates>[string]["count"], number>>;
+
+// ============================================
+// TransformResult Tests
+// ============================================
+
+import { transform, WHERE, GT } from "../src/index.js";
+
+type Order = { id: number; customer: { name: string; email?: string }; items: { name: string; price: number }[] };
+declare const order: Order;
+
+// Chains follow the keys, arrays distribute them over their elements
+const customerName = transform(order, ["customer", "name"]);
+type TestChain = Expect<Equal<typeof customerName, string>>;
+
+const prices = transform(order, ["items", "price"]);
+type TestDistributed = Expect<Equal<typeof prices, number[]>>;
+
+const firstItem = transform(order, ["items", 0]);
+type TestIndex = Expect<Equal<typeof firstItem, { name: string; price: number } | undefined>>;
+
+// Select transforms build objects from copied keys and nested transforms
+const summary = transform(order, { id: true, email: ["customer", "email"], names: ["items", "name"] });
+type TestSelect = Expect<Equal<typeof summary, { id: number; email: string | undefined; names: string[] }>>;
+
+// WHERE filters elements while reshaping them, and keeps them whole without other keys
+const expensive = transform(order, ["items", { [WHERE]: { price: { [GT]: 10 } }, name: true }]);
+type TestWhere = Expect<Equal<typeof expensive, { name: string }[]>>;
+
+const filtered = transform(order.items, { [WHERE]: (item) => item.price > 10 });
+type TestWhereOnly = Expect<Equal<typeof filtered, { name: string; price: number }[]>>;
+
+// LOOKUP joins ids with the values of a record of the root data
+import { LOOKUP, DEFAULT } from "../src/index.js";
+
+type Catalog = {
+  groups: Record<string, { name: string; items: string[]; featured?: string }>;
+  items: Record<string, { name: string; price: number }>;
+};
+declare const catalog: Catalog;
+
+const joined = transform(catalog, ["groups", "coffee", "items", { [LOOKUP]: "items" }]);
+type TestLookupArray = Expect<Equal<typeof joined, { name: string; price: number }[]>>;
+
+const joinedNames = transform(catalog, ["groups", "coffee", "items", { [LOOKUP]: "items", name: true }]);
+type TestLookupProjected = Expect<Equal<typeof joinedNames, { name: string }[]>>;
+
+// Single ids may be missing, DEFAULT replaces them
+const featured = transform(catalog, ["groups", "coffee", "featured", { [LOOKUP]: ["items"] }]);
+type TestLookupSingle = Expect<Equal<typeof featured, { name: string; price: number } | undefined>>;
+
+const featuredOrNone = transform(catalog, ["groups", "coffee", "featured", { [LOOKUP]: ["items"], [DEFAULT]: "none" }]);
+type TestLookupDefault = Expect<Equal<typeof featuredOrNone, { name: string; price: number } | "none" | undefined>>;
+
+// ============================================
+// BY_KEY Tests
+// ============================================
+
+import { BY_KEY } from "../src/index.js";
+
+type Line = { sku: string; qty: number; position?: number; tags: string[] };
+type Cart = { lines: Line[] };
+declare const cart: Cart;
+
+// Only fields with string or number values address elements
+type TestByKeyUpdate = Expect<IsAssignable<{ lines: { [BY_KEY]: "sku"; "sku-42": { qty: 3 } } }, Update<Cart>>>;
+type TestByKeyOptional = Expect<IsAssignable<{ lines: { [BY_KEY]: "position" } }, Update<Cart>>>;
+type TestByKeyNotArray = Expect<NotEqual<IsAssignable<{ lines: { [BY_KEY]: "tags" } }, Update<Cart>>, true>>;
+type TestByKeyUnknown = Expect<NotEqual<IsAssignable<{ lines: { [BY_KEY]: "id" } }, Update<Cart>>, true>>;
+
+// Changes record the keys of the elements by index
+type TestByKeyResult = Expect<IsAssignable<{ [BY_KEY]: { "0": "sku-42" } }, UpdateResult<Line[]>>>;
+
+// Selected elements are keyed by the field
+const linesBySku = select(cart.lines, { [BY_KEY]: "sku", [ALL]: { qty: true } });
+type TestByKeySelect = Expect<Equal<typeof linesBySku, Record<string, { qty?: number }> | undefined>>;
+
+// @ts-expect-error array fields can't address elements
+select(cart.lines, { [BY_KEY]: "tags", a: true });
+
+// ============================================
+// ADD_TO_SET / PULL Tests
+// ============================================
+
+import { ADD_TO_SET, PULL } from "../src/index.js";
+
+type Account = { roles: string[]; sessions: { id: string; expired: boolean }[] };
+
+type TestAddToSet = Expect<IsAssignable<{ roles: { [ADD_TO_SET]: ["admin"] } }, Update<Account>>>;
+type TestAddToSetWrongType = Expect<NotEqual<IsAssignable<{ roles: { [ADD_TO_SET]: [1] } }, Update<Account>>, true>>;
+
+// PULL takes a predicate of the elements
+type TestPullValue = Expect<IsAssignable<{ roles: { [PULL]: "admin" } }, Update<Account>>>;
+type TestPullPredicate = Expect<IsAssignable<{ sessions: { [PULL]: { expired: true } } }, Update<Account>>>;
+type TestPullUnknownKey = Expect<NotEqual<IsAssignable<{ sessions: { [PULL]: { closed: true } } }, Update<Account>>, true>>;
+
+// ============================================
+// UPSERT Tests
+// ============================================
+
+import { UPSERT } from "../src/index.js";
+
+type Prefs = { profiles: Record<string, { theme?: { mode: string } }> };
+
+type TestUpsert = Expect<IsAssignable<{ [UPSERT]: true; profiles: { p1: { theme: { mode: "dark" } } } }, Update<Prefs>>>;
+type TestUpsertFactory = Expect<IsAssignable<{ [UPSERT]: (path: string[]) => {} | undefined }, Update<Prefs>>>;
+type TestUpsertOperand = Expect<NotEqual<IsAssignable<{ [UPSERT]: "yes" }, Update<Prefs>>, true>>;
+
+// ============================================
+// RENAME Tests
+// ============================================
+
+import { RENAME } from "../src/index.js";
+
+type Contact = { fullname?: string; displayName?: string; address?: { city: string }; phones: string[] };
+
+// RENAME maps keys of the object to keys or paths
+type TestRenameKey = Expect<IsAssignable<{ [RENAME]: { fullname: "displayName" } }, Update<Contact>>>;
+type TestRenamePath = Expect<IsAssignable<{ [RENAME]: { address: ["profile", "address"] } }, Update<Contact>>>;
+type TestRenameUnknownKey = Expect<NotEqual<IsAssignable<{ [RENAME]: { nickname: "displayName" } }, Update<Contact>>, true>>;
+type TestRenameArray = Expect<NotEqual<IsAssignable<{ phones: { [RENAME]: { "0": "1" } } }, Update<Contact>>, true>>;
+
+// ============================================
+// REF Tests
+// ============================================
+
+import { REF } from "../src/index.js";
+
+type Invoice = { subtotal: number; total: number; note?: string; billing: { city: string }; shipping?: { city: string } };
+
+// REF replaces values of any type and is the operand of value operators
+type TestRefNumber = Expect<IsAssignable<{ total: { [REF]: "$.subtotal" } }, Update<Invoice>>>;
+type TestRefObject = Expect<IsAssignable<{ shipping: { [REF]: ["$", "billing"] } }, Update<Invoice>>>;
+type TestRefOperators = Expect<IsAssignable<{ total: { [REF]: "$.subtotal"; [MUL]: { [REF]: "tax" } } }, Update<Invoice>>>;
+type TestRefAppend = Expect<IsAssignable<{ note: { [APPEND]: { [REF]: "@.billing.city" } } }, Update<Invoice>>>;
+type TestRefPath = Expect<NotEqual<IsAssignable<{ total: { [REF]: 1 } }, Update<Invoice>>, true>>;
+type TestRefOperand = Expect<NotEqual<IsAssignable<{ total: { [INC]: { ref: "tax" } } }, Update<Invoice>>, true>>;
+
+// A reference only sets keys, the statement for the root can't be one
+type TestRefRoot = Expect<NotEqual<IsAssignable<{ [REF]: "$.billing" }, Update<Invoice>>, true>>;
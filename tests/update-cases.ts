@@ -0,0 +1,175 @@
+import { ALL, WHERE, DEFAULT, CONTEXT } from "../src/index.js";
+
+// The scenarios of update.test.ts as data, so functions built on update results can be checked against all of them.
+// Each case applies its statements in order to a fresh copy of its data.
+export type UpdateCase = { name: string; data: () => any; statements: any[] };
+
+export const updateCases: UpdateCase[] = [
+  {
+    name: "simple properties",
+    data: () => ({ user: { name: "Alice", age: 30 }, settings: { theme: "dark" } }),
+    statements: [{ user: { age: 31 }, settings: { theme: "light" } }],
+  },
+  {
+    name: "unchanged values",
+    data: () => ({ user: { name: "Alice", age: 30 } }),
+    statements: [{ user: { age: 30 } }],
+  },
+  {
+    name: "nested updates",
+    data: () => ({ app: { ui: { theme: "dark", fontSize: 14 }, features: { autoSave: true } } }),
+    statements: [{ app: { ui: { theme: "light" } } }],
+  },
+  {
+    name: "function transforms",
+    data: () => ({ user: { name: "alice", score: 100 } }),
+    statements: [{ user: { name: (current: string) => current.toUpperCase(), score: (current: number) => current * 2 } }],
+  },
+  {
+    name: "functions returning nested updates",
+    data: () => ({ counter: { value: 5, metadata: { lastUpdate: 0 } } }),
+    statements: [{ counter: (current: any) => ({ value: current.value + 1, metadata: { lastUpdate: 1000 } }) }],
+  },
+  {
+    name: "replacement with [value]",
+    data: () => ({ user: { name: "Alice", age: 30, city: "NYC" } }),
+    statements: [{ user: [{ name: "Bob", age: 25, city: "LA" }] }],
+  },
+  {
+    name: "deletion with []",
+    data: () => ({ user: { name: "Alice", nickname: "Ali" } }),
+    statements: [{ user: { nickname: [] } }],
+  },
+  {
+    name: "array element replacement",
+    data: () => ({
+      items: [
+        { id: 1, name: "Item 1", quantity: 5 },
+        { id: 2, name: "Item 2", quantity: 10 },
+      ],
+    }),
+    statements: [{ items: { "0": [{ id: 1, name: "Updated Item", quantity: 3 }] } }],
+  },
+  {
+    name: "several nested values",
+    data: () => ({ app: { settings: { theme: "dark", fontSize: 14 } } }),
+    statements: [{ app: { settings: { theme: "light", fontSize: 16 } } }],
+  },
+  {
+    name: "ALL over object properties",
+    data: () => ({
+      items: {
+        item1: { price: 10, inStock: false },
+        item2: { price: 20, inStock: false },
+        item3: { price: 30, inStock: false },
+      },
+    }),
+    statements: [{ items: { [ALL]: { inStock: true } } }],
+  },
+  {
+    name: "ALL over array elements",
+    data: () => ({
+      products: [
+        { name: "Product 1", discount: 0 },
+        { name: "Product 2", discount: 0 },
+      ],
+    }),
+    statements: [{ products: { [ALL]: { discount: 10 } } }],
+  },
+  {
+    name: "ALL with a function",
+    data: () => ({ scores: { alice: 100, bob: 200, charlie: 150 } }),
+    statements: [{ scores: { [ALL]: (current: number) => current * 1.1 } }],
+  },
+  {
+    name: "WHERE predicate",
+    data: () => ({
+      users: [
+        { name: "Alice", age: 30, status: "active" },
+        { name: "Bob", age: 65, status: "active" },
+        { name: "Charlie", age: 70, status: "active" },
+      ],
+    }),
+    statements: [{ users: { [ALL]: { [WHERE]: (user: any) => user.age >= 65, status: "senior" } } }],
+  },
+  {
+    name: "WHERE not matching",
+    data: () => ({ config: { mode: "production", debug: false } }),
+    statements: [{ config: { [WHERE]: (cfg: any) => cfg.mode === "development", debug: true } }],
+  },
+  {
+    name: "DEFAULT for a null object",
+    data: () => ({ user: { profile: null } }),
+    statements: [{ user: { profile: { [DEFAULT]: { name: "", bio: "", avatar: "" }, name: "Alice", bio: "Developer" } } }],
+  },
+  {
+    name: "DEFAULT for a null array",
+    data: () => ({ cart: { items: null } }),
+    statements: [{ cart: { items: { [DEFAULT]: [], "0": [{ id: "item1", quantity: 2 }] } } }],
+  },
+  {
+    name: "DEFAULT for an existing object",
+    data: () => ({ user: { profile: { name: "Bob", bio: "Existing" } } }),
+    statements: [{ user: { profile: { [DEFAULT]: { name: "", bio: "", avatar: "" }, bio: "Updated" } } }],
+  },
+  {
+    name: "CONTEXT in functions",
+    data: () => ({ items: [{ price: 100 }, { price: 200 }] }),
+    statements: [
+      {
+        [CONTEXT]: { taxRate: 0.08, discount: 0.1 },
+        items: {
+          [ALL]: {
+            finalPrice: (current: any, item: any, key: string, ctx: any) => item.price * (1 - ctx.discount) * (1 + ctx.taxRate),
+          },
+        },
+      },
+    ],
+  },
+  {
+    name: "CONTEXT overridden at nested levels",
+    data: () => ({ regular: { price: 100 }, special: { price: 100 } }),
+    statements: [
+      {
+        [CONTEXT]: { multiplier: 1.0 },
+        regular: { price: (current: number, item: any, key: string, ctx: any) => current * ctx.multiplier },
+        special: {
+          [CONTEXT]: { multiplier: 1.5 },
+          price: (current: number, item: any, key: string, ctx: any) => current * ctx.multiplier,
+        },
+      },
+    ],
+  },
+  {
+    name: "CONTEXT in WHERE",
+    data: () => ({ items: [{ value: 50 }, { value: 150 }] }),
+    statements: [
+      { [CONTEXT]: { threshold: 100 }, items: { [ALL]: { [WHERE]: (item: any, ctx: any) => item.value >= ctx.threshold, marked: true } } },
+    ],
+  },
+  {
+    name: "transaction over several keys",
+    data: () => ({ user: { name: "Alice", age: 30 }, settings: { theme: "dark", fontSize: 14 } }),
+    statements: [{ user: { age: 31 } }, { settings: { theme: "light" } }],
+  },
+  {
+    name: "transaction changing a value twice",
+    data: () => ({ counter: { value: 0 }, status: { active: false } }),
+    statements: [{ counter: { value: 1 } }, { counter: { value: 2 } }, { status: { active: true } }],
+  },
+  {
+    name: "transaction updating a replaced value",
+    data: () => ({ user: { name: "Alice", age: 30 } }),
+    statements: [{ user: [{ name: "Bob", age: 20 }] }, { user: { age: 21 } }],
+  },
+  {
+    name: "transaction with nested updates",
+    data: () => ({
+      users: [
+        { id: 1, name: "Alice", score: 100 },
+        { id: 2, name: "Bob", score: 200 },
+      ],
+    }),
+    statements: [{ users: { "0": { score: (s: number) => s + 10 } } }, { users: { [ALL]: { bonus: 5 } } }],
+  },
+];
@@ -519,6 +519,24 @@ describe("update functionality", () => {
       expect(changes).toBeUndefined();
     });
 
+    it("should keep tracking a replaced value when it is updated again", () => {
+      const data = {
+        user: { name: "Alice", age: 30 },
+      };
+
+      const tx = transaction(data);
+      tx.update({ user: [{ name: "Bob", age: 20 }] });
+      tx.update({ user: { age: 21 } });
+      const changes = tx.commit();
+
+      expect(data.user).toEqual({ name: "Bob", age: 21 });
+      expect(META in data.user).toBe(false);
+      expect(changes).toEqual({
+        user: { name: "Bob", age: 21 },
+        [META]: { user: { original: { name: "Alice", age: 30 } } },
+      });
+    });
+
     it("should handle complex nested updates in transaction", () => {
       const data = {
         users: [
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import {
+  update,
+  updateImmutable,
+  UPSERT,
+  DEFAULT,
+  META,
+  WHERE,
+  ALL,
+  PUSH,
+  INC,
+} from "../src/index.js";
+
+type Profile = { theme?: { mode: string; accent?: string }; font?: number; tags?: string[]; visits?: number };
+type Settings = { settings: { profiles: Record<string, Profile>; owner?: { name: string } } };
+
+describe("UPSERT", () => {
+  it("should create missing objects along the statement's paths", () => {
+    const data: Settings = { settings: { profiles: {} } };
+
+    update(data, { [UPSERT]: true, settings: { profiles: { p1: { theme: { mode: "dark" } } } } });
+
+    expect(data.settings.profiles.p1).toEqual({ theme: { mode: "dark" } });
+  });
+
+  it("should record the top-most created object as added", () => {
+    const data: Settings = { settings: { profiles: {} } };
+
+    const changes = update(data, { [UPSERT]: true, settings: { profiles: { p1: { theme: { mode: "dark" } } } } });
+
+    expect(changes).toEqual({
+      settings: {
+        profiles: {
+          p1: { theme: { mode: "dark" } },
+          [META]: { p1: { original: undefined } },
+        },
+      },
+    });
+  });
+
+  it("should update existing objects as usual", () => {
+    const data: Settings = { settings: { profiles: { base: { font: 12 } } } };
+
+    const changes = update(data, { [UPSERT]: true, settings: { profiles: { base: { font: 14, theme: { mode: "light" } } } } });
+
+    expect(data.settings.profiles.base).toEqual({ font: 14, theme: { mode: "light" } });
+    expect(changes?.settings?.profiles?.base?.[META]).toEqual({ font: { original: 12 }, theme: { original: undefined } });
+  });
+
+  it("should create arrays for statements with array operators", () => {
+    const data: Settings = { settings: { profiles: {} } };
+
+    update(data, { [UPSERT]: true, settings: { profiles: { p1: { tags: { [PUSH]: ["new"] }, visits: { [INC]: 1 } } } } });
+
+    expect(data.settings.profiles.p1).toEqual({ tags: ["new"], visits: 1 });
+  });
+
+  it("should apply only below the statement it's in", () => {
+    const data = { a: undefined as { b: number } | undefined, c: { d: undefined as { e: number } | undefined } };
+
+    expect(() => update(data, { a: { b: 1 }, c: { [UPSERT]: true, d: { e: 1 } } })).toThrow(
+      "Can't partially update a non-object: a",
+    );
+
+    update(data, { c: { [UPSERT]: true, d: { e: 1 } } });
+    expect(data.c.d).toEqual({ e: 1 });
+  });
+
+  it("should be turned off with false", () => {
+    const data: Settings = { settings: { profiles: {} } };
+
+    expect(() =>
+      update(data, { [UPSERT]: true, settings: { profiles: { [UPSERT]: false, p1: { font: 1 } } } }),
+    ).toThrow("Can't partially update a non-object: p1");
+  });
+
+  it("should prefer DEFAULT and still create objects inside it", () => {
+    const data: Settings = { settings: { profiles: {} } };
+
+    update(data, {
+      [UPSERT]: true,
+      settings: { profiles: { p1: { [DEFAULT]: { font: 10 }, theme: { mode: "dark" } } } },
+    });
+
+    expect(data.settings.profiles.p1).toEqual({ font: 10, theme: { mode: "dark" } });
+  });
+
+  it("should not replace primitives", () => {
+    const data = { value: 5 as any };
+
+    expect(() => update(data, { [UPSERT]: true, value: { a: 1 } })).toThrow("Can't partially update a non-object: value");
+  });
+
+  it("should respect WHERE on missing values", () => {
+    const data: Settings = { settings: { profiles: {} } };
+
+    const changes = update(data, { [UPSERT]: true, settings: { profiles: { p1: { [WHERE]: { font: 1 }, font: 2 } } } });
+
+    expect(changes).toBeUndefined();
+    expect(data).toEqual({ settings: { profiles: {} } });
+  });
+
+  describe("with a factory", () => {
+    it("should create objects from the factory by their path", () => {
+      const data: Settings = { settings: { profiles: {} } };
+      const paths: string[][] = [];
+
+      update(data, {
+        settings: {
+          [UPSERT]: (path) => {
+            paths.push(path);
+            return path[0] === "profiles" && path.length === 2 ? { font: 12, theme: { mode: "light" } } : undefined;
+          },
+          profiles: { p1: { theme: { accent: "red" } } },
+          owner: { name: "Ann" },
+        },
+      });
+
+      expect(data.settings.profiles.p1).toEqual({ font: 12, theme: { mode: "light", accent: "red" } });
+      expect(data.settings.owner).toEqual({ name: "Ann" });
+      expect(paths).toEqual([["profiles", "p1"], ["owner"]]);
+    });
+
+    it("should copy the factory's values", () => {
+      const initial = { font: 12 };
+      const data: Settings = { settings: { profiles: {} } };
+
+      update(data, { [UPSERT]: () => initial, settings: { profiles: { p1: { font: 14 } } } });
+
+      expect(initial).toEqual({ font: 12 });
+      expect(data.settings.profiles.p1).toEqual({ font: 14 });
+    });
+  });
+
+  it("should create missing objects along ALL", () => {
+    const data = { users: [{ name: "a" }, { name: "b", address: { city: "Oslo" } }] as { name: string; address?: { city: string; zip?: string } }[] };
+
+    update(data, { users: { [UPSERT]: true, [ALL]: { address: { zip: "0001" } } } });
+
+    expect(data.users.map((user) => user.address)).toEqual([{ zip: "0001" }, { city: "Oslo", zip: "0001" }]);
+  });
+
+  it("should create copies in updateImmutable", () => {
+    const data: Settings = { settings: { profiles: { base: { font: 12 } } } };
+
+    const { data: next, changes } = updateImmutable(data, { [UPSERT]: true, settings: { profiles: { p1: { font: 1 } } } });
+
+    expect(data).toEqual({ settings: { profiles: { base: { font: 12 } } } });
+    expect(next.settings.profiles.p1).toEqual({ font: 1 });
+    expect(changes).toEqual({ settings: { profiles: { p1: { font: 1 }, [META]: { p1: { original: undefined } } } } });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateUpdate,
+  validateSelect,
+  fromJSON,
+  update,
+  SerializationError,
+  ALL,
+  WHERE,
+  DEFAULT,
+  CONTEXT,
+  MATCH,
+  NOT,
+  GT,
+  SOME,
+  PUSH,
+  INSERT,
+  MOVE,
+  INC,
+  APPEND,
+  AS,
+  ORDER_BY,
+  LIMIT,
+  GROUP_BY,
+  AGGREGATE,
+  SUM,
+  COUNT,
+} from "../src/index.js";
+
+// Messages with paths, as SerializationError formats them
+const messages = (errors: SerializationError[]) => errors.map((e) => e.message);
+
+describe("validateUpdate", () => {
+  it("should accept valid statements", () => {
+    const errors = validateUpdate(
+      {
+        [CONTEXT]: { rate: 2 },
+        user: { name: [], age: { [INC]: 1 }, nickname: { [APPEND]: "!" }, profile: { [DEFAULT]: { bio: "" }, bio: "x" } },
+        settings: { anything: "goes" },
+        items: { [ALL]: { [WHERE]: { active: true }, price: 0 }, "-1": { id: 3 }, [PUSH]: [{ id: 4, price: 1 }] },
+        tags: { [INSERT]: [0, "z"], [MOVE]: [0, 1], "0": ["y"] },
+      },
+      {
+        user: { name: "Alice", age: 30, nickname: undefined as string | undefined, profile: null as any },
+        settings: { [ALL]: "" },
+        items: [
+          { id: 1, price: 100 },
+          { id: 2, price: 200, active: true },
+        ],
+        tags: ["a"],
+      },
+    );
+
+    expect(errors).toEqual([]);
+  });
+
+  it("should report unknown keys with their paths", () => {
+    const errors = validateUpdate({ user: { nmae: "Bob" }, itmes: [] }, { user: { name: "Alice" }, items: [{ id: 1 }] });
+
+    expect(errors.every((e) => e instanceof SerializationError)).toBe(true);
+    expect(errors.map((e) => e.path)).toEqual([["user", "nmae"], ["itmes"]]);
+    expect(messages(errors)).toEqual(["Unknown key at path: user.nmae", "Unknown key at path: itmes"]);
+  });
+
+  it("should report all problems at once", () => {
+    const errors = validateUpdate(
+      {
+        user: { name: { first: "A" }, age: { [APPEND]: "x" } },
+        items: { [ALL]: { price: { [INC]: "5" } }, first: {} },
+        tags: { [MOVE]: [0] },
+        settings: { theme: ["a", "b"] },
+      },
+      { user: { name: "Alice", age: 30 }, settings: { [ALL]: "" }, items: [{ id: 1, price: 100 }], tags: ["a"] },
+    );
+
+    expect(messages(errors)).toEqual([
+      "Can't partially update a non-object at path: user.name",
+      "Can't append to a non-string at path: user.age.@append",
+      "Operand must be a number at path: items.*.price.@inc",
+      "Invalid array index at path: items.first",
+      "Operand must be [from, to] at path: tags.@move",
+      "Multiple element arrays not allowed at path: settings.theme",
+    ]);
+  });
+
+  it("should report array operators on non-arrays", () => {
+    const errors = validateUpdate({ user: { [PUSH]: [1] } }, { user: { name: "Alice" } });
+
+    expect(messages(errors)).toEqual(["Can't apply array operators to a non-array at path: user.@push"]);
+  });
+
+  it("should report invalid regexes and unknown keys in WHERE", () => {
+    const errors = validateUpdate(
+      { items: { [ALL]: { [WHERE]: [{ name: { [MATCH]: "(" } }, { id: { [NOT]: { [MATCH]: "/[/i" } } }], price: 1 } } },
+      { items: [{ id: 1, price: 100 }] },
+    );
+
+    expect(messages(errors)).toEqual([
+      "Unknown key at path: items.*.?.0.name",
+      "Invalid regex: /[/i at path: items.*.?.1.id.!.~",
+    ]);
+  });
+
+  it("should check DEEP_ALL statements without the sample", () => {
+    const stmt = fromJSON({ "**": { "?": { name: { "~": "[" } }, anything: { "@inc": "1" } } });
+
+    expect(messages(validateUpdate(stmt, { user: { name: "Alice" } }))).toEqual([
+      "Invalid regex: [ at path: **.?.name.~",
+      "Operand must be a number at path: **.anything.@inc",
+    ]);
+  });
+
+  it("should validate deserialized statements", () => {
+    const stmt = fromJSON({ user: { age: { "@inc": 1 } }, tags: { "@push": "b" } });
+
+    expect(messages(validateUpdate(stmt, { user: { age: 30 }, tags: ["a"] }))).toEqual([
+      "Operand must be an array at path: tags.@push",
+    ]);
+  });
+
+  it("should find the problems update would throw on", () => {
+    const stmt = { user: { name: { first: "A" } } };
+
+    expect(() => update({ user: { name: "Alice" } }, stmt as any)).toThrow("Can't partially update a non-object: name");
+    expect(validateUpdate(stmt, { user: { name: "Alice" } })).toHaveLength(1);
+  });
+});
+
+describe("validateSelect", () => {
+  it("should accept valid statements", () => {
+    const errors = validateSelect(
+      {
+        user: { name: true, profile: { bio: true } },
+        settings: { [ALL]: true },
+        items: {
+          [ALL]: { [WHERE]: { price: { [GT]: 100 } }, id: true, [AS]: { cost: "price" } },
+          [ORDER_BY]: [{ key: "price", desc: true }, "id"],
+          [LIMIT]: 10,
+        },
+        tags: { [WHERE]: { [SOME]: { [MATCH]: "^a" } }, 0: true },
+      },
+      {
+        user: { name: "Alice", profile: null as any },
+        settings: { [ALL]: "" },
+        items: [{ id: 1, price: 100 }],
+        tags: ["a"],
+      },
+    );
+
+    expect(errors).toEqual([]);
+  });
+
+  it("should report unknown keys and paths", () => {
+    const errors = validateSelect(
+      {
+        user: { nmae: true, [AS]: { n: ["name", "first"] } },
+        items: { [ORDER_BY]: "cost", [GROUP_BY]: ["id", "x"], [AGGREGATE]: { total: { [SUM]: "prcie" } } },
+      },
+      { user: { name: "Alice" }, items: [{ id: 1, price: 100 }] },
+    );
+
+    expect(messages(errors)).toEqual([
+      "Unknown key at path: user.nmae",
+      "Unknown key: first at path: user.@as.n",
+      "Unknown key: cost at path: items.@orderBy",
+      "Unknown key: x at path: items.@groupBy",
+      "Unknown key: prcie at path: items.@aggregate.total.@sum",
+    ]);
+  });
+
+  it("should report operators used on the wrong type", () => {
+    const errors = validateSelect(
+      {
+        user: { [LIMIT]: 1, name: { first: true } },
+        items: { [LIMIT]: -1, [AGGREGATE]: { bad: { [SUM]: "price", [COUNT]: true } } },
+        tags: { x: true },
+      },
+      { user: { name: "Alice" }, items: [{ id: 1, price: 100 }], tags: ["a"] },
+    );
+
+    expect(messages(errors)).toEqual([
+      "Can't select keys of a non-object at path: user.name",
+      "Can't sort or page a non-array at path: user",
+      "Operand must be a non-negative integer at path: items.@limit",
+      "Aggregation must have one operator at path: items.@aggregate.bad",
+      "Invalid array index at path: tags.x",
+    ]);
+  });
+
+  it("should report invalid regexes inside DEEP_ALL", () => {
+    const errors = validateSelect(fromJSON({ "**": { "?": { name: { "~": "[" } } } }), { user: { name: "Alice" } });
+
+    expect(messages(errors)).toEqual(["Invalid regex: [ at path: **.?.name.~"]);
+  });
+});
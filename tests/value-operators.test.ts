@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { update, undo, toJSON, fromJSON, META, ALL, WHERE, GT, INC, MUL, MIN, MAX, APPEND } from "../src/index.js";
+
+describe("value operators", () => {
+  describe("INC", () => {
+    it("should increment a number", () => {
+      const data = { stats: { views: 10 } };
+
+      const changes = update(data, { stats: { views: { [INC]: 5 } } });
+
+      expect(data.stats.views).toBe(15);
+      expect(changes).toEqual({
+        stats: { views: 15, [META]: { views: { original: 10 } } },
+      });
+    });
+
+    it("should decrement with a negative operand", () => {
+      const data = { stock: 3 };
+
+      update(data, { stock: { [INC]: -1 } });
+
+      expect(data.stock).toBe(2);
+    });
+
+    it("should treat a missing value as 0", () => {
+      const data: { count?: number } = {};
+
+      const changes = update(data, { count: { [INC]: 1 } });
+
+      expect(data.count).toBe(1);
+      expect(changes?.[META]?.count).toEqual({ original: undefined });
+    });
+
+    it("should apply to all values with ALL", () => {
+      const data = { inventory: { apples: 1, pears: 2 } as Record<string, number> };
+
+      update(data, { inventory: { [ALL]: { [INC]: 10 } } });
+
+      expect(data.inventory).toEqual({ apples: 11, pears: 12 });
+    });
+
+    it("should throw on non-numbers", () => {
+      const data: any = { name: "Alice" };
+
+      expect(() => update(data, { name: { [INC]: 1 } })).toThrow("Can't apply arithmetic to a non-number: name");
+    });
+  });
+
+  describe("MUL", () => {
+    it("should multiply a number", () => {
+      const data = { price: 20 };
+
+      update(data, { price: { [MUL]: 1.5 } });
+
+      expect(data.price).toBe(30);
+    });
+
+    it("should not record a change when the value stays the same", () => {
+      const data = { price: 20 };
+
+      const changes = update(data, { price: { [MUL]: 1 } });
+
+      expect(changes).toBeUndefined();
+    });
+  });
+
+  describe("MIN and MAX", () => {
+    it("should keep the smaller value with MIN", () => {
+      const data = { a: 5, b: 15 };
+
+      update(data, { a: { [MIN]: 10 }, b: { [MIN]: 10 } });
+
+      expect(data).toEqual({ a: 5, b: 10 });
+    });
+
+    it("should keep the larger value with MAX", () => {
+      const data = { a: 5, b: 15 };
+
+      update(data, { a: { [MAX]: 10 }, b: { [MAX]: 10 } });
+
+      expect(data).toEqual({ a: 10, b: 15 });
+    });
+
+    it("should clamp when combined with INC", () => {
+      const data = { levels: [95, 5, 50] };
+
+      update(data, { levels: { [ALL]: { [INC]: 10, [MIN]: 100, [MAX]: 10 } } });
+
+      expect(data.levels).toEqual([100, 15, 60]);
+    });
+
+    it("should set a missing value to the operand", () => {
+      const data: { best?: number } = {};
+
+      update(data, { best: { [MAX]: 42 } });
+
+      expect(data.best).toBe(42);
+    });
+  });
+
+  describe("APPEND", () => {
+    it("should concatenate strings", () => {
+      const data = { log: "start" };
+
+      const changes = update(data, { log: { [APPEND]: ";next" } });
+
+      expect(data.log).toBe("start;next");
+      expect(changes?.[META]?.log).toEqual({ original: "start" });
+    });
+
+    it("should throw on non-strings", () => {
+      const data: any = { count: 1 };
+
+      expect(() => update(data, { count: { [APPEND]: "x" } })).toThrow("Can't append to a non-string: count");
+    });
+  });
+
+  it("should respect WHERE on the current value", () => {
+    const data = { scores: [5, 50, 500] };
+
+    update(data, { scores: { [ALL]: { [WHERE]: { [GT]: 10 }, [MUL]: 2 } as any } });
+
+    expect(data.scores).toEqual([5, 100, 1000]);
+  });
+
+  it("should be reverted by undo", () => {
+    const data = { cart: { total: 100, note: "a" } };
+
+    const changes = update(data, { cart: { total: { [INC]: 50 }, note: { [APPEND]: "b" } } });
+    undo(data, changes);
+
+    expect(data.cart).toEqual({ total: 100, note: "a" });
+  });
+
+  it("should survive serialization", () => {
+    const stmt = { a: { [INC]: 1 }, b: { [MUL]: 2 }, c: { [MIN]: 3, [MAX]: 0 }, d: { [APPEND]: "!" } };
+
+    const json = JSON.parse(JSON.stringify(toJSON(stmt)));
+    expect(json).toEqual({ a: { "@inc": 1 }, b: { "@mul": 2 }, c: { "@min": 3, "@max": 0 }, d: { "@append": "!" } });
+
+    const data = { a: 1, b: 2, c: 5, d: "hi" };
+    update(data, fromJSON(json));
+    expect(data).toEqual({ a: 2, b: 4, c: 3, d: "hi!" });
+  });
+});